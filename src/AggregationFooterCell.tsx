@@ -0,0 +1,52 @@
+import React from 'react';
+
+import { Icon } from '@blueprintjs/core';
+import { Tooltip2 } from '@blueprintjs/popover2';
+import { Cell } from '@blueprintjs/table';
+import { AggregationResult, ColumnData, calculationErrorLabels } from './columnDataUtils';
+
+interface AggregationFooterCellProps {
+    result?: AggregationResult;
+    column: ColumnData;
+    progress?: number;
+}
+
+/**
+ * Describes the cells left out of an aggregation, eg.: "(2 errors, 1 non-numeric skipped)"
+ */
+const getSkippedNote = (result: AggregationResult): string => {
+    const skipped = [
+        result.skippedErrors > 0 ? `${result.skippedErrors} ${result.skippedErrors == 1 ? 'error' : 'errors'}` : '',
+        result.skippedValues > 0 ? `${result.skippedValues} non-numeric` : '',
+    ].filter((note) => note !== '');
+    return skipped.length > 0 ? ` (${skipped.join(', ')} skipped)` : '';
+};
+
+/**
+ * Cell of the rows below the table showing aggregation results, formatted like the column
+ * values. Columns with fewer aggregations than there are footer rows get empty cells, and
+ * columns still being calculated in the background show the progress instead.
+ */
+const AggregationFooterCell: React.FC<AggregationFooterCellProps> = ({ result, column, progress }) => {
+    if (progress !== undefined) {
+        return <Cell className="aggregation-footer-cell"><em>Calculating... {Math.floor(progress * 100)}%</em></Cell>;
+    }
+    if (result === undefined) return <Cell className="aggregation-footer-cell" />;
+    if (result.value === null) {
+        return (
+            <Cell className="aggregation-footer-cell" intent="danger" interactive>
+                <Tooltip2 content={result.error ?? ''} hoverOpenDelay={300}>
+                    <strong><Icon icon="error" size={12} /> {result.label}: {calculationErrorLabels['evaluation']}</strong>
+                </Tooltip2>
+            </Cell>
+        );
+    }
+    return (
+        <Cell className="aggregation-footer-cell">
+            <strong>{result.label}: {column.getFormattedAggregation(result)}</strong>
+            {getSkippedNote(result)}
+        </Cell>
+    );
+};
+
+export default AggregationFooterCell;
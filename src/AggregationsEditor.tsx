@@ -0,0 +1,81 @@
+import React from 'react';
+
+import { Button, ControlGroup, FormGroup, HTMLSelect, NumericInput } from '@blueprintjs/core';
+import ExpressionEditor from './ExpressionEditor';
+import { validateAggregation } from './expressionSyntax';
+import { ColumnAggregations, ColumnAggregator } from './columnDataUtils';
+
+interface AggregationsEditorProps {
+    aggregations: ColumnAggregator[];
+    columnNames: string[];
+    onChange: (aggregations: ColumnAggregator[]) => void;
+}
+
+/**
+ * List of the aggregations of a column. Each aggregation is shown in its own footer row.
+ * Percentile aggregations have an input for the percentile and Custom aggregations an
+ * expression editor.
+ */
+const AggregationsEditor: React.FC<AggregationsEditorProps> = ({ aggregations, columnNames, onChange }) => {
+    const replaceAggregation = (index: number, aggregation: ColumnAggregator) => {
+        onChange(aggregations.map((current, i) => i === index ? aggregation : current));
+    };
+
+    const handleOperationChange = (index: number, event: React.ChangeEvent<HTMLSelectElement>) => {
+        const operation = ColumnAggregations[event.target.value as keyof typeof ColumnAggregations];
+        replaceAggregation(index, new ColumnAggregator(operation, aggregations[index].getOptions()));
+    };
+
+    const handleAdd = () => {
+        onChange([...aggregations, new ColumnAggregator(ColumnAggregations.Sum)]);
+    };
+
+    const handleRemove = (index: number) => {
+        onChange(aggregations.filter((_, i) => i !== index));
+    };
+
+    const operations = Object.values(ColumnAggregations).filter((operation) => operation !== ColumnAggregations.None);
+
+    return (
+        <FormGroup label="Aggregations" helperText="Each aggregation is shown in its own row below the table">
+            {aggregations.map((aggregation, i) => {
+                const diagnostics = validateAggregation(aggregation, columnNames);
+                return (
+                    <FormGroup
+                        key={i}
+                        helperText={diagnostics.map((diagnostic) => diagnostic.message).join('. ')}
+                        intent={diagnostics.length > 0 ? 'danger' : 'none'}
+                    >
+                        <ControlGroup fill>
+                            <HTMLSelect value={aggregation.operation} onChange={(event) => handleOperationChange(i, event)}>
+                                {operations.map((operation) => <option key={operation} value={operation}>{operation}</option>)}
+                            </HTMLSelect>
+                            {aggregation.operation === ColumnAggregations.Percentile ?
+                                <NumericInput
+                                    value={aggregation.percentile}
+                                    min={0}
+                                    max={100}
+                                    onValueChange={(percentile: number) => replaceAggregation(i, new ColumnAggregator(ColumnAggregations.Percentile, { percentile: isNaN(percentile) ? 50 : percentile }))}
+                                    fill
+                                />
+                            : ''}
+                            {aggregation.operation === ColumnAggregations.Custom ?
+                                <ExpressionEditor
+                                    id={`aggregation-expression-${i}`}
+                                    value={aggregation.expression}
+                                    columnNames={columnNames}
+                                    diagnostics={diagnostics}
+                                    onChange={(expression: string) => replaceAggregation(i, new ColumnAggregator(ColumnAggregations.Custom, { expression }))}
+                                />
+                            : ''}
+                            <Button icon="cross" minimal onClick={() => handleRemove(i)} />
+                        </ControlGroup>
+                    </FormGroup>
+                );
+            })}
+            <Button icon="add" minimal onClick={handleAdd}>Add aggregation</Button>
+        </FormGroup>
+    );
+};
+
+export default AggregationsEditor;
@@ -0,0 +1,192 @@
+import React from 'react';
+
+import { Checkbox, Colors, FormGroup, HTMLSelect, NonIdealState } from '@blueprintjs/core';
+import { ColumnData, DataTable } from './columnDataUtils';
+import { ChartAxis, ChartSeriesOptions, ChartSeriesStyle, ChartXAxis, buildChart } from './chartData';
+import { defaultColumnFormat, formatNumber } from './valueFormat';
+
+interface ChartPanelProps {
+    table: DataTable;
+    tableVersion: number;
+    columnList: ColumnData[];
+    rowIndexes: number[];
+    calculationProgress: number;
+    selectedRow: number | null;
+    onSelectRow: (rowIndex: number) => void;
+}
+
+const seriesColors = [Colors.BLUE3, Colors.ORANGE3, Colors.GREEN3, Colors.VIOLET3, Colors.RED3, Colors.TURQUOISE3, Colors.GOLD3, Colors.ROSE3];
+
+const chartWidth = 560;
+const chartHeight = 340;
+const chartMargin = 16;
+const axisWidth = 64;
+const xAxisHeight = 44;
+
+/**
+ * Draws a vertical axis with its ticks and label. Even axes are drawn on the left of the
+ * plot, odd axes on the right, moving outwards.
+ */
+const renderYAxis = (axis: ChartAxis, axisIndex: number, position: number, scaleY: (value: number) => number, color: string) => {
+    const isLeft = axisIndex % 2 == 0;
+    const direction = isLeft ? -1 : 1;
+    const labelPosition = position + direction * (axisWidth - 12);
+    const labelY = (chartMargin + chartHeight - xAxisHeight) / 2;
+    return (
+        <g key={axisIndex} className="chart-axis" stroke={color} fill={color}>
+            <line x1={position} x2={position} y1={scaleY(axis.min)} y2={scaleY(axis.max)} />
+            {axis.ticks.map((tick) => (
+                <g key={tick}>
+                    <line x1={position} x2={position + direction * 4} y1={scaleY(tick)} y2={scaleY(tick)} />
+                    <text x={position + direction * 6} y={scaleY(tick)} textAnchor={isLeft ? 'end' : 'start'} dominantBaseline="middle" stroke="none">
+                        {formatNumber(tick, defaultColumnFormat)}
+                    </text>
+                </g>
+            ))}
+            <text x={labelPosition} y={labelY} transform={`rotate(-90 ${labelPosition} ${labelY})`} textAnchor="middle" stroke="none">
+                {axis.label}
+            </text>
+        </g>
+    );
+};
+
+/**
+ * Chart of columns against the time column or the row index. Data and calculated columns
+ * can be plotted as lines or points, columns with different units get their own vertical
+ * axis. Clicking a point selects its row in the table. Columns still being calculated in
+ * the background are plotted once they are ready.
+ */
+const ChartPanel: React.FC<ChartPanelProps> = ({ table, tableVersion, columnList, rowIndexes, calculationProgress, selectedRow, onSelectRow }) => {
+    const [xAxis, setXAxis] = React.useState<ChartXAxis>('time');
+    const [seriesOptions, setSeriesOptions] = React.useState<ChartSeriesOptions[]>([]);
+
+    const hasTimeColumn = table.getTimeColumnIndex() !== undefined;
+    const chartXAxis = hasTimeColumn ? xAxis : 'row';
+    const plottableColumns = columnList.filter((column) => column.columnType == 'data' || column.columnType == 'calculated');
+    const plottedOptions = seriesOptions.filter((options) => plottableColumns.some((column) => column.columnId === options.columnId));
+    const readyOptions = plottedOptions.filter((options) => table.isColumnCalculated(table.columns.findIndex((column) => column.columnId === options.columnId)));
+    const pendingNames = plottedOptions
+        .filter((options) => !readyOptions.includes(options))
+        .map((options) => plottableColumns.find((column) => column.columnId === options.columnId)?.columnName);
+
+    const chart = React.useMemo(
+        () => buildChart(table, readyOptions, chartXAxis, rowIndexes),
+        [table, tableVersion, columnList, rowIndexes, chartXAxis, JSON.stringify(readyOptions)],
+    );
+
+    const handleSeriesToggle = (columnId: string, event: React.FormEvent<HTMLInputElement>) => {
+        const checked = event.currentTarget.checked;
+        setSeriesOptions(checked
+            ? [...seriesOptions, { columnId, style: 'line' }]
+            : seriesOptions.filter((options) => options.columnId !== columnId));
+    };
+
+    const handleStyleChange = (columnId: string, style: ChartSeriesStyle) => {
+        setSeriesOptions(seriesOptions.map((options) => options.columnId === columnId ? { ...options, style } : options));
+    };
+
+    const leftAxisCount = Math.ceil(chart.yAxes.length / 2);
+    const rightAxisCount = Math.floor(chart.yAxes.length / 2);
+    const plotLeft = chartMargin + Math.max(leftAxisCount, 1) * axisWidth;
+    const plotRight = chartWidth - chartMargin - rightAxisCount * axisWidth;
+    const plotTop = chartMargin;
+    const plotBottom = chartHeight - xAxisHeight;
+    const scaleX = (x: number) => plotLeft + (x - chart.xAxis.min) / (chart.xAxis.max - chart.xAxis.min) * (plotRight - plotLeft);
+    const scalesY = chart.yAxes.map((axis) => (y: number) => plotBottom - (y - axis.min) / (axis.max - axis.min) * (plotBottom - plotTop));
+    const getAxisPosition = (axisIndex: number) => axisIndex % 2 == 0
+        ? plotLeft - Math.floor(axisIndex / 2) * axisWidth
+        : plotRight + Math.floor(axisIndex / 2) * axisWidth;
+    const getAxisColor = (axisIndex: number) => {
+        if (chart.yAxes.length == 1) return Colors.GRAY1;
+        return seriesColors[chart.series.findIndex((series) => series.axisIndex == axisIndex) % seriesColors.length];
+    };
+    const selectedPoint = chart.series.flatMap((series) => series.points).find((point) => point.rowIndex === selectedRow);
+
+    return (
+        <div className="chart-panel">
+            <FormGroup label="Horizontal axis" labelFor="chart-x-axis-select" inline>
+                <HTMLSelect id="chart-x-axis-select" value={chartXAxis} onChange={(event) => setXAxis(event.target.value as ChartXAxis)}>
+                    <option value="time" disabled={!hasTimeColumn}>Elapsed time</option>
+                    <option value="row">Row index</option>
+                </HTMLSelect>
+            </FormGroup>
+            <FormGroup label="Columns">
+                {plottableColumns.map((column) => {
+                    const options = plottedOptions.find((options) => options.columnId === column.columnId);
+                    return (
+                        <div key={column.columnId} className="chart-series-option">
+                            <Checkbox
+                                label={column.columnName}
+                                checked={options !== undefined}
+                                onChange={(event: React.FormEvent<HTMLInputElement>) => handleSeriesToggle(column.columnId, event)}
+                                inline
+                            />
+                            {options !== undefined && (
+                                <HTMLSelect minimal value={options.style} onChange={(event) => handleStyleChange(column.columnId, event.target.value as ChartSeriesStyle)}>
+                                    <option value="line">Line</option>
+                                    <option value="scatter">Points</option>
+                                </HTMLSelect>
+                            )}
+                        </div>
+                    );
+                })}
+            </FormGroup>
+            {pendingNames.length > 0 && calculationProgress < 1 && (
+                <p className="chart-note">Calculating {pendingNames.join(', ')}... {Math.floor(calculationProgress * 100)}%</p>
+            )}
+            {plottedOptions.length == 0 ? (
+                <NonIdealState icon="timeline-line-chart" description="Select columns to plot" />
+            ) : <>
+                <svg className="chart" viewBox={`0 0 ${chartWidth} ${chartHeight}`}>
+                    <g className="chart-axis" stroke={Colors.GRAY1} fill={Colors.GRAY1}>
+                        <line x1={plotLeft} x2={plotRight} y1={plotBottom} y2={plotBottom} />
+                        {chart.xAxis.ticks.map((tick) => (
+                            <g key={tick}>
+                                <line className="chart-grid" x1={scaleX(tick)} x2={scaleX(tick)} y1={plotTop} y2={plotBottom} />
+                                <text x={scaleX(tick)} y={plotBottom + 16} textAnchor="middle" stroke="none">{formatNumber(tick, defaultColumnFormat)}</text>
+                            </g>
+                        ))}
+                        <text x={(plotLeft + plotRight) / 2} y={chartHeight - 6} textAnchor="middle" stroke="none">{chart.xAxis.label}</text>
+                    </g>
+                    {chart.yAxes.map((axis, axisIndex) => renderYAxis(axis, axisIndex, getAxisPosition(axisIndex), scalesY[axisIndex], getAxisColor(axisIndex)))}
+                    {selectedPoint !== undefined && (
+                        <line className="chart-selection" x1={scaleX(selectedPoint.x)} x2={scaleX(selectedPoint.x)} y1={plotTop} y2={plotBottom} />
+                    )}
+                    {chart.series.map((series, seriesIndex) => {
+                        const color = seriesColors[seriesIndex % seriesColors.length];
+                        const scaleY = scalesY[series.axisIndex];
+                        return (
+                            <g key={series.columnId} stroke={color} fill={color}>
+                                {series.style == 'line' && (
+                                    <polyline fill="none" strokeWidth={2} points={series.points.map((point) => `${scaleX(point.x)},${scaleY(point.y)}`).join(' ')} />
+                                )}
+                                {series.points.map((point) => (
+                                    <circle
+                                        key={point.rowIndex}
+                                        className="chart-point"
+                                        cx={scaleX(point.x)}
+                                        cy={scaleY(point.y)}
+                                        r={point.rowIndex === selectedRow ? 5 : series.style == 'line' ? 2 : 3.5}
+                                        onClick={() => onSelectRow(point.rowIndex)}
+                                    >
+                                        <title>{`${series.name}: ${formatNumber(point.y, defaultColumnFormat)}, ${chart.xAxis.label}: ${formatNumber(point.x, defaultColumnFormat)}`}</title>
+                                    </circle>
+                                ))}
+                            </g>
+                        );
+                    })}
+                </svg>
+                <div className="chart-legend">
+                    {chart.series.map((series, seriesIndex) => (
+                        <span key={series.columnId}>
+                            <span className="chart-legend-swatch" style={{ backgroundColor: seriesColors[seriesIndex % seriesColors.length] }} />
+                            {series.name}
+                        </span>
+                    ))}
+                </div>
+            </>}
+        </div>
+    );
+};
+
+export default ChartPanel;
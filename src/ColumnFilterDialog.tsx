@@ -0,0 +1,88 @@
+import React from 'react';
+
+import { Button, Dialog, FormGroup, InputGroup, Classes, Radio, RadioGroup } from '@blueprintjs/core';
+import { isNumericValue } from './csvImport';
+import { ColumnFilter } from './tableView';
+
+interface ColumnFilterDialogProps {
+    isOpen: boolean;
+    columnName: string;
+    filter: ColumnFilter | undefined;
+    onClose: () => void;
+    onConfirm: (filter: ColumnFilter) => void;
+}
+
+const ColumnFilterDialog: React.FC<ColumnFilterDialogProps> = ({ isOpen, columnName, filter, onClose, onConfirm }) => {
+    const [kind, setKind] = React.useState<ColumnFilter['kind']>('range');
+    const [min, setMin] = React.useState<string>('');
+    const [max, setMax] = React.useState<string>('');
+    const [text, setText] = React.useState<string>('');
+
+    const handleOpening = () => {
+        setKind(filter?.kind ?? 'range');
+        setMin(filter?.kind == 'range' && filter.min !== null ? String(filter.min) : '');
+        setMax(filter?.kind == 'range' && filter.max !== null ? String(filter.max) : '');
+        setText(filter?.kind == 'text' ? filter.text : '');
+    };
+
+    const handleKindChange = (event: React.FormEvent<HTMLInputElement>) => {
+        setKind(event.currentTarget.value as ColumnFilter['kind']);
+    };
+
+    const isMinValid = min.trim() === '' || isNumericValue(min);
+    const isMaxValid = max.trim() === '' || isNumericValue(max);
+    const isValid = kind == 'errors'
+        || (kind == 'text' && text !== '')
+        || (kind == 'range' && isMinValid && isMaxValid && (min.trim() !== '' || max.trim() !== ''));
+
+    const handleConfirm = () => {
+        if (kind == 'range') {
+            onConfirm({ kind, min: min.trim() === '' ? null : Number(min), max: max.trim() === '' ? null : Number(max) });
+        } else if (kind == 'text') {
+            onConfirm({ kind, text });
+        } else {
+            onConfirm({ kind });
+        }
+    };
+
+    return (
+        <Dialog
+            isOpen={isOpen}
+            onClose={onClose}
+            onOpening={handleOpening}
+            title={`Filter ${columnName}`}
+            className={Classes.DIALOG}
+        >
+            <div className={Classes.DIALOG_BODY}>
+                <RadioGroup label="Show rows where the value" selectedValue={kind} onChange={handleKindChange} inline>
+                    <Radio label="Is in a range" value="range" />
+                    <Radio label="Contains text" value="text" />
+                    <Radio label="Is an error" value="errors" />
+                </RadioGroup>
+                {kind == 'range' ? <>
+                    <FormGroup label="Minimum" labelFor="filter-min-input" labelInfo="(optional)" intent={isMinValid ? 'none' : 'danger'} helperText={isMinValid ? '' : 'Enter a number'}>
+                        <InputGroup id="filter-min-input" value={min} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMin(e.target.value)} />
+                    </FormGroup>
+                    <FormGroup label="Maximum" labelFor="filter-max-input" labelInfo="(optional)" intent={isMaxValid ? 'none' : 'danger'} helperText={isMaxValid ? '' : 'Enter a number'}>
+                        <InputGroup id="filter-max-input" value={max} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMax(e.target.value)} />
+                    </FormGroup>
+                </> : ''}
+                {kind == 'text' ?
+                    <FormGroup label="Text" labelFor="filter-text-input" helperText="Matching ignores case">
+                        <InputGroup id="filter-text-input" value={text} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setText(e.target.value)} />
+                    </FormGroup>
+                : ''}
+            </div>
+            <div className={Classes.DIALOG_FOOTER}>
+                <div className={Classes.DIALOG_FOOTER_ACTIONS}>
+                    {isValid ?
+                        <Button intent="primary" onClick={handleConfirm} className={Classes.BUTTON}>Apply</Button>
+                    : ''}
+                </div>
+            </div>
+        </Dialog>
+    );
+
+};
+
+export default ColumnFilterDialog;
@@ -0,0 +1,101 @@
+import React from 'react';
+
+import { Button, Checkbox, Dialog, FormGroup, HTMLSelect, NumericInput, Classes } from '@blueprintjs/core';
+import { ColumnFormat, DateFormat, NumberNotation, NumberPrecision, ValueType, defaultColumnFormat, formatValue } from './valueFormat';
+
+interface ColumnFormatDialogProps {
+    isOpen: boolean;
+    columnName: string;
+    format: ColumnFormat;
+    sampleValue?: string | number;
+    sampleType?: ValueType;
+    onClose: () => void;
+    onConfirm: (format: ColumnFormat) => void;
+}
+
+const notationLabels: { [notation in NumberNotation]: string } = {
+    'standard': 'Standard',
+    'scientific': 'Scientific',
+    'percent': 'Percentage',
+};
+
+const precisionLabels: { [precision in NumberPrecision]: string } = {
+    'auto': 'Automatic',
+    'decimals': 'Decimal places',
+    'significant': 'Significant figures',
+};
+
+const dateFormatLabels: { [dateFormat in DateFormat]: string } = {
+    'iso': 'As stored (ISO)',
+    'date': 'Date',
+    'datetime': 'Date and time',
+    'time': 'Time',
+    'locale': 'Local format',
+};
+
+const ColumnFormatDialog: React.FC<ColumnFormatDialogProps> = ({ isOpen, columnName, format, sampleValue, sampleType, onClose, onConfirm }) => {
+    const [editedFormat, setEditedFormat] = React.useState<ColumnFormat>(format);
+
+    const handleOpening = () => {
+        setEditedFormat(format);
+    };
+
+    const updateFormat = (changes: Partial<ColumnFormat>) => {
+        setEditedFormat({ ...editedFormat, ...changes });
+    };
+
+    return (
+        <Dialog
+            isOpen={isOpen}
+            onClose={onClose}
+            onOpening={handleOpening}
+            title={`Format ${columnName}`}
+            className={Classes.DIALOG}
+        >
+            <div className={Classes.DIALOG_BODY}>
+                <FormGroup label="Notation" labelFor="format-notation-select" inline>
+                    <HTMLSelect id="format-notation-select" value={editedFormat.notation} onChange={(event) => updateFormat({ notation: event.target.value as NumberNotation })}>
+                        {Object.entries(notationLabels).map(([notation, label]) => <option key={notation} value={notation}>{label}</option>)}
+                    </HTMLSelect>
+                </FormGroup>
+                <FormGroup label="Precision" labelFor="format-precision-select" inline>
+                    <HTMLSelect id="format-precision-select" value={editedFormat.precision} onChange={(event) => updateFormat({ precision: event.target.value as NumberPrecision })}>
+                        {Object.entries(precisionLabels).map(([precision, label]) => <option key={precision} value={precision}>{label}</option>)}
+                    </HTMLSelect>
+                    {editedFormat.precision != 'auto' ?
+                        <NumericInput
+                            value={editedFormat.digits}
+                            min={editedFormat.precision == 'significant' ? 1 : 0}
+                            max={20}
+                            minorStepSize={null}
+                            onValueChange={(value: number) => updateFormat({ digits: isNaN(value) ? defaultColumnFormat.digits : value })}
+                        />
+                    : ''}
+                </FormGroup>
+                <Checkbox
+                    checked={editedFormat.thousandsSeparator}
+                    disabled={editedFormat.notation == 'scientific'}
+                    label="Thousands separator"
+                    onChange={(event: React.FormEvent<HTMLInputElement>) => updateFormat({ thousandsSeparator: event.currentTarget.checked })}
+                />
+                <FormGroup label="Dates" labelFor="format-date-select" inline>
+                    <HTMLSelect id="format-date-select" value={editedFormat.dateFormat} onChange={(event) => updateFormat({ dateFormat: event.target.value as DateFormat })}>
+                        {Object.entries(dateFormatLabels).map(([dateFormat, label]) => <option key={dateFormat} value={dateFormat}>{label}</option>)}
+                    </HTMLSelect>
+                </FormGroup>
+                {sampleValue !== undefined ?
+                    <p>Preview: <code>{String(sampleValue)}</code> is shown as <code>{formatValue(sampleValue, editedFormat, sampleType)}</code></p>
+                : ''}
+            </div>
+            <div className={Classes.DIALOG_FOOTER}>
+                <div className={Classes.DIALOG_FOOTER_ACTIONS}>
+                    <Button onClick={() => setEditedFormat(defaultColumnFormat)} className={Classes.BUTTON}>Reset</Button>
+                    <Button intent="primary" onClick={() => onConfirm(editedFormat)} className={Classes.BUTTON}>Apply</Button>
+                </div>
+            </div>
+        </Dialog>
+    );
+
+};
+
+export default ColumnFormatDialog;
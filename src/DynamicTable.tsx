@@ -1,27 +1,190 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import NewColumnDialog from './NewColumnDialog';
 import EditColumnDialog from './EditColumnDialog';
+import ImportReportDialog from './ImportReportDialog';
+import ExportDialog from './ExportDialog';
+import SaveProjectDialog from './SaveProjectDialog';
+import AggregationFooterCell from './AggregationFooterCell';
+import ColumnFilterDialog from './ColumnFilterDialog';
+import ColumnFormatDialog from './ColumnFormatDialog';
+import SummaryDialog from './SummaryDialog';
+import ChartPanel from './ChartPanel';
+import TableSettingsDialog from './TableSettingsDialog';
 import {
+  Alert,
   Button,
   ButtonGroup,
+  Icon,
+  Menu,
+  MenuDivider,
+  MenuItem,
+  NonIdealState,
+  ProgressBar,
+  Switch,
+  Tab,
+  Tabs,
+  useHotkeys,
 } from "@blueprintjs/core";
+import { Tooltip2 } from "@blueprintjs/popover2";
 
 
-import { Column, Cell, Table2 } from '@blueprintjs/table';
-import { dummyTableData } from './data/dummyData';
-import { ColumnCalculation, ColumnData, DataTable, columns, ColumnAggregations } from './columnDataUtils'
+import { Column, ColumnHeaderCell2, Cell, EditableCell2, Region, Regions, Table2 } from '@blueprintjs/table';
+import { dummyColumns, dummyTableData } from './data/dummyData';
+import { ColumnCalculation, ColumnData, DataTable, ColumnAggregator, calculationErrorLabels } from './columnDataUtils'
+import { importDelimitedText, ImportReport, isNumericValue } from './csvImport'
+import { ColumnFormat, defaultColumnFormat, unformatValue } from './valueFormat'
+import { downloadFile, exportTable, ExportOptions } from './tableExport'
+import { getUnmatchedColumns, parseProject } from './projectFile'
+import { ColumnFilter, defaultTableView, describeFilter, getVisibleRows, SortDirection, TableView, ViewKeyCache } from './tableView'
+import { TableCompiler } from './tableCompiler'
+import { Workbook } from './workbook'
+import {
+  addColumnMutation,
+  duplicateColumnMutation,
+  formatColumnMutation,
+  freezeColumnMutation,
+  moveColumnMutation,
+  removeColumnMutation,
+  replaceColumnMutation,
+  TableHistory,
+  TableMutation,
+  updateCellMutation,
+} from './tableHistory'
+
+
+/**
+ * Rows calculated ahead of the displayed rows, above and below, so scrolling is smooth
+ */
+const prefetchRowCount = 100;
 
+/**
+ * Starts the worker that calculates the table rows, or returns null where workers aren't
+ * available
+ */
+const createCompileWorker = (): Worker | null => {
+  if (typeof Worker === 'undefined') return null;
+  try {
+    return new Worker(new URL('./compileWorker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Builds the workbook shown when the page opens, with the sample table
+ */
+const createInitialWorkbook = (): Workbook => {
+  const workbook = new Workbook()
+  const table = new DataTable(dummyTableData)
+  table.addColumns(dummyColumns)
+  table.compile()
+  workbook.addTable('Culture', table)
+  return workbook
+};
 
 const DynamicTable: React.FC = () => {
 
 
   const [isNewColumnDialogOpen, setIsNewColumnDialogOpen] = useState<boolean>(false);
   const [isEditColumnDialogOpen, setIsEditColumnDialogOpen] = useState<boolean>(false);
-  const [columnList, setColumnList] = useState<ColumnData[]>(columns)
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState<boolean>(false);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [importedFileName, setImportedFileName] = useState<string>('');
+  const [isSaveProjectDialogOpen, setIsSaveProjectDialogOpen] = useState<boolean>(false);
+  const [isSummaryDialogOpen, setIsSummaryDialogOpen] = useState<boolean>(false);
+  const [isChartOpen, setIsChartOpen] = useState<boolean>(false);
+  const [selectedRegions, setSelectedRegions] = useState<Region[]>([]);
+  const [projectError, setProjectError] = useState<string | null>(null);
+  const [unmatchedColumnNames, setUnmatchedColumnNames] = useState<string[]>([]);
+  const [columnToDelete, setColumnToDelete] = useState<number | null>(null);
+  const [columnToFilter, setColumnToFilter] = useState<number | null>(null);
+  const [columnToFormat, setColumnToFormat] = useState<number | null>(null);
+  const [isTableSettingsOpen, setIsTableSettingsOpen] = useState<boolean>(false);
+  const [isDeleteTableAlertOpen, setIsDeleteTableAlertOpen] = useState<boolean>(false);
+  const [view, setView] = useState<TableView>(defaultTableView);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const tableRef = useRef<Table2>(null);
+  const [workbook] = useState<Workbook>(createInitialWorkbook)
+  const [activeTableName, setActiveTableName] = useState<string>(workbook.tables[0].name)
+  const dataTable = workbook.getTable(activeTableName) as DataTable
+  const [columnList, setColumnList] = useState<ColumnData[]>(dataTable.columns)
+  const [tableVersion, setTableVersion] = useState<number>(0)
+  const [histories] = useState(() => new WeakMap<DataTable, TableHistory>())
+  const [calculationProgress, setCalculationProgress] = useState<number>(1)
+  const [compiler] = useState<TableCompiler>(() => new TableCompiler(createCompileWorker))
 
-  const dataTable = new DataTable(dummyTableData)
-  dataTable.addColumns(columnList)
-  dataTable.compile()
+  if (!histories.has(dataTable)) histories.set(dataTable, new TableHistory());
+  const history = histories.get(dataTable) as TableHistory;
+
+  const refreshTable = () => {
+    compiler.cancel();
+    workbook.tableChanged(activeTableName);
+    setColumnList(dataTable.columns);
+    setTableVersion((version) => version + 1);
+  };
+
+  const applyMutation = (mutation: TableMutation) => {
+    history.execute(dataTable, mutation);
+    refreshTable();
+  };
+
+  const handleUndo = () => {
+    if (history.undo(dataTable) !== undefined) refreshTable();
+  };
+
+  const handleRedo = () => {
+    if (history.redo(dataTable) !== undefined) refreshTable();
+  };
+
+  const replaceTable = (table: DataTable) => {
+    compiler.cancel();
+    workbook.replaceTable(activeTableName, table);
+    setView(defaultTableView);
+    setColumnList(table.columns);
+    setTableVersion((version) => version + 1);
+  };
+
+  const showTable = (name: string) => {
+    compiler.cancel();
+    setActiveTableName(name);
+    setView(defaultTableView);
+    setSelectedRegions([]);
+    setImportedFileName('');
+    setColumnList((workbook.getTable(name) as DataTable).columns);
+  };
+
+  const handleAddTable = () => {
+    const name = workbook.getUniqueTableName(`Table ${workbook.tables.length + 1}`);
+    const table = new DataTable({});
+    table.compile();
+    workbook.addTable(name, table);
+    showTable(name);
+  };
+
+  const handleTableSettings = (name: string, keyColumnId: string | null) => {
+    compiler.cancel();
+    workbook.renameTable(activeTableName, name);
+    workbook.setKeyColumn(name, keyColumnId);
+    setActiveTableName(name);
+    setColumnList(dataTable.columns);
+    setTableVersion((version) => version + 1);
+    setIsTableSettingsOpen(false);
+  };
+
+  const handleDeleteTable = () => {
+    compiler.cancel();
+    workbook.removeTable(activeTableName);
+    setIsDeleteTableAlertOpen(false);
+    setIsTableSettingsOpen(false);
+    showTable(workbook.tables[0].name);
+  };
+
+  const hotkeys = useMemo(() => [
+    { combo: 'mod+z', global: true, label: 'Undo', onKeyDown: handleUndo, preventDefault: true },
+    { combo: 'mod+shift+z', global: true, label: 'Redo', onKeyDown: handleRedo, preventDefault: true },
+  ], [dataTable, history, tableVersion]);
+  useHotkeys(hotkeys);
 
   const handleOpenNewColumnDialog = () => {
     setIsNewColumnDialogOpen(true);
@@ -39,51 +202,436 @@ const DynamicTable: React.FC = () => {
     setIsEditColumnDialogOpen(false);
   };
 
-  const handleNewColumn = (name: string, expression: string, aggregation: ColumnAggregations) => {
-    let newColumn = (new ColumnData(name, 'calculated', `${name.replace(/ /g, '_')}`))
+  const handleNewColumn = (name: string, expression: string, aggregations: ColumnAggregator[], unit: string) => {
+    let newColumn = (new ColumnData(name, 'calculated', dataTable.getUniqueColumnId(name)))
     .withCalculation(new ColumnCalculation(expression))
-    .withAggregation(aggregation)
-    setColumnList(columnList.concat([newColumn]));
+    .withAggregations(aggregations)
+    .withUnit(unit)
+    applyMutation(addColumnMutation(newColumn));
     setIsNewColumnDialogOpen(false);
   };
 
-  const handleColumnEdit = (oldName: string, newName: string, newExpression: string, aggregation: ColumnAggregations) => {
+  const handleColumnEdit = (oldName: string, newName: string, newExpression: string, aggregations: ColumnAggregator[], unit: string) => {
     let editedColumnIndex = columnList.findIndex((column) => column.columnName === oldName);
     let newColumn = (new ColumnData(
       newName, 
       columnList[editedColumnIndex].columnType, 
-      `${newName.replace(/ /g, '_')}`)
+      columnList[editedColumnIndex].columnId)
       ).withCalculation(new ColumnCalculation(newExpression))
-      .withAggregation(aggregation);
-    let newList = [...columnList]
-    newList[editedColumnIndex] = newColumn;
-    setColumnList(newList)
+      .withAggregations(aggregations)
+      .withUnit(unit)
+      .withFormat(columnList[editedColumnIndex].format);
+    applyMutation(replaceColumnMutation(dataTable, editedColumnIndex, newColumn, workbook));
     setIsEditColumnDialogOpen(false)
   }
 
-  const cellRenderer = (rowIndex: number, columnIndex: number) => {
-    return <Cell>{dataTable.getValue(rowIndex, columnIndex)}</Cell>
+  const handleDeleteColumn = () => {
+    if (columnToDelete === null) return;
+    applyMutation(removeColumnMutation(dataTable, columnToDelete));
+    setColumnToDelete(null);
+  };
+
+  const handleFormat = (format: ColumnFormat) => {
+    if (columnToFormat === null) return;
+    applyMutation(formatColumnMutation(dataTable, columnToFormat, format));
+    setColumnToFormat(null);
+  };
+
+  const handleColumnsReordered = (oldIndex: number, newIndex: number, length: number) => {
+    if (oldIndex === newIndex) return;
+    applyMutation(moveColumnMutation(oldIndex, newIndex, length));
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file === undefined) return;
+    const { data, columns: importedColumns, report } = importDelimitedText(await file.text());
+    const table = new DataTable(data)
+    table.addColumns(importedColumns)
+    for (const column of dataTable.columns.filter((column) => column.columnType == 'calculated')) {
+      const columnName = table.getUniqueColumnName(column.columnName);
+      const keptColumn = new ColumnData(columnName, 'calculated', table.getUniqueColumnId(column.columnId))
+        .withCalculation(new ColumnCalculation(column.calculation.expression))
+        .withAggregations(column.aggregations)
+        .withUnit(column.unit)
+        .withFormat(column.format);
+      if (columnName != column.columnName) {
+        report.renamedColumns.push({ name: column.columnName, newName: columnName, reason: 'An imported column has the same name as this calculated column' });
+      }
+      table.addColumns([keptColumn]);
+    }
+    table.compile()
+    replaceTable(table);
+    setImportedFileName(file.name);
+    setImportReport(report);
+  };
+
+  const handleExport = (options: ExportOptions) => {
+    const extension = options.format == 'json' ? 'json' : 'csv';
+    const baseName = importedFileName !== '' ? importedFileName.replace(/\.[^.]*$/, '') : 'table';
+    downloadFile(exportTable(dataTable, options), `${baseName}.${extension}`, options.format);
+    setIsExportDialogOpen(false);
+  };
+
+  const handleSaveProject = (name: string, embedData: boolean) => {
+    const project = workbook.saveProject(activeTableName, embedData, importedFileName);
+    downloadFile(JSON.stringify(project, null, 2), `${name}.project.json`, 'json');
+    setIsSaveProjectDialogOpen(false);
+  };
+
+  const handleOpenProject = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file === undefined) return;
+    try {
+      const project = parseProject(await file.text());
+      setUnmatchedColumnNames(getUnmatchedColumns(project, dataTable));
+      compiler.cancel();
+      const tableName = workbook.openProject(activeTableName, project);
+      const table = workbook.getTable(tableName) as DataTable;
+      setActiveTableName(tableName);
+      setView(defaultTableView);
+      setColumnList(table.columns);
+      setTableVersion((version) => version + 1);
+      if (project.data !== undefined) setImportedFileName(project.dataSource ?? '');
+    } catch (error) {
+      setProjectError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const viewKeys = useMemo(
+    () => new ViewKeyCache(dataTable),
+    [dataTable, columnList, tableVersion],
+  );
+  const visibleRows = useMemo(
+    () => getVisibleRows(dataTable, view, viewKeys),
+    [dataTable, viewKeys, view],
+  );
+
+  const handleCellConfirm = (value: string, visibleRowIndex?: number, columnIndex?: number) => {
+    if (visibleRowIndex === undefined || columnIndex === undefined) return;
+    const rowIndex = visibleRows[visibleRowIndex];
+    const column = dataTable.columns[columnIndex];
+    if (value === column.getFormattedValue(rowIndex)) return;
+    const unformattedValue = unformatValue(value, column.format);
+    if (unformattedValue === column.getValue(rowIndex)) return;
+    const parsedValue = column.columnType == 'data' && isNumericValue(unformattedValue) ? Number(unformattedValue) : unformattedValue;
+    applyMutation(updateCellMutation(dataTable, rowIndex, columnIndex, parsedValue));
+  };
+
+  useEffect(() => {
+    compiler.compile(workbook, dataTable, setCalculationProgress);
+    return () => compiler.cancel();
+  }, [dataTable, tableVersion]);
+
+  useEffect(() => () => compiler.terminate(), []);
+
+  const calculatedColumns = dataTable.columns.map((_, columnIndex) => dataTable.isColumnCalculated(columnIndex));
+
+  const aggregationResults = useMemo(() => {
+    const aggregatedRows = view.aggregationScope == 'visible' ? visibleRows : undefined;
+    return dataTable.columns.map((_, columnIndex) => (
+      calculatedColumns[columnIndex] ? dataTable.getAggregationResults(columnIndex, aggregatedRows) : null
+    ));
+  }, [dataTable, columnList, tableVersion, visibleRows, view.aggregationScope, calculatedColumns.join(',')]);
+
+  const handleVisibleCellsChange = (rowIndices: { rowIndexStart: number, rowIndexEnd: number }) => {
+    const start = Math.max(rowIndices.rowIndexStart - prefetchRowCount, 0);
+    const end = Math.min(rowIndices.rowIndexEnd + prefetchRowCount, visibleRows.length - 1);
+    dataTable.calculateRows(visibleRows.slice(start, end + 1));
+  };
+
+  const selectedRows = selectedRegions.length == 1 ? selectedRegions[0].rows : undefined;
+  const selectedRow = selectedRows != null && selectedRows[0] == selectedRows[1] && selectedRows[0] < visibleRows.length
+    ? visibleRows[selectedRows[0]]
+    : null;
+
+  const handleSelectRow = (rowIndex: number) => {
+    const visibleRowIndex = visibleRows.indexOf(rowIndex);
+    if (visibleRowIndex == -1) return;
+    const region = Regions.row(visibleRowIndex);
+    setSelectedRegions([region]);
+    tableRef.current?.scrollToRegion(region);
+  };
+
+  const handleSort = (columnIndex: number, direction: SortDirection | null) => {
+    setView({ ...view, sort: direction === null ? null : { columnId: dataTable.columns[columnIndex].columnId, direction } });
+  };
+
+  const handleFilter = (columnIndex: number, filter: ColumnFilter | null) => {
+    const filters = { ...view.filters };
+    if (filter === null) {
+      delete filters[dataTable.columns[columnIndex].columnId];
+    } else {
+      filters[dataTable.columns[columnIndex].columnId] = filter;
+    }
+    setView({ ...view, filters });
+    setColumnToFilter(null);
+  };
+
+  const isFiltered = Object.keys(view.filters).some((columnId) => dataTable.columns.some((column) => column.columnId == columnId));
+
+  const cellRenderer = (visibleRowIndex: number, columnIndex: number) => {
+    if (visibleRowIndex >= visibleRows.length) {
+      const columnResults = aggregationResults[columnIndex];
+      const aggregationIndex = visibleRowIndex - visibleRows.length;
+      if (columnResults === null && aggregationIndex < dataTable.columns[columnIndex].aggregations.length) {
+        return <AggregationFooterCell column={dataTable.columns[columnIndex]} progress={calculationProgress} />
+      }
+      return <AggregationFooterCell result={columnResults?.[aggregationIndex]} column={dataTable.columns[columnIndex]} />
+    }
+    const rowIndex = visibleRows[visibleRowIndex];
+    const error = dataTable.getError(rowIndex, columnIndex)
+    if (error !== undefined) {
+      return (
+        <Cell intent="danger" interactive>
+          <Tooltip2 content={error.message} hoverOpenDelay={300}>
+            <span><Icon icon="error" size={12} /> {calculationErrorLabels[error.kind]}</span>
+          </Tooltip2>
+        </Cell>
+      )
+    }
+    const columnType = dataTable.columns[columnIndex].columnType
+    if (columnType == 'data' || columnType == 'time') {
+      return (
+        <EditableCell2
+          value={dataTable.columns[columnIndex].getFormattedValue(rowIndex)}
+          rowIndex={visibleRowIndex}
+          columnIndex={columnIndex}
+          onConfirm={handleCellConfirm}
+        />
+      )
+    }
+    return <Cell>{dataTable.columns[columnIndex].getFormattedValue(rowIndex)}</Cell>
+  };
+
+  const columnMenuRenderer = (columnIndex?: number) => {
+    if (columnIndex === undefined) return <Menu />;
+    const column = dataTable.columns[columnIndex];
+    const sortDirection = view.sort?.columnId == column.columnId ? view.sort.direction : null;
+    const filter = view.filters[column.columnId];
+    return (
+      <Menu>
+        <MenuItem icon="sort-asc" text="Sort ascending" active={sortDirection == 'asc'} onClick={() => handleSort(columnIndex, 'asc')} />
+        <MenuItem icon="sort-desc" text="Sort descending" active={sortDirection == 'desc'} onClick={() => handleSort(columnIndex, 'desc')} />
+        {sortDirection !== null && <MenuItem icon="cross" text="Clear sort" onClick={() => handleSort(columnIndex, null)} />}
+        <MenuItem icon="filter" text="Filter..." label={filter !== undefined ? describeFilter(filter) : undefined} onClick={() => setColumnToFilter(columnIndex)} />
+        {filter !== undefined && <MenuItem icon="filter-remove" text="Clear filter" onClick={() => handleFilter(columnIndex, null)} />}
+        <MenuDivider />
+        <MenuItem icon="numerical" text="Format..." onClick={() => setColumnToFormat(columnIndex)} />
+        <MenuItem icon="duplicate" text="Duplicate" onClick={() => applyMutation(duplicateColumnMutation(dataTable, columnIndex))} />
+        {column.columnType == 'calculated' && (
+          <MenuItem icon="snowflake" text="Freeze values" onClick={() => applyMutation(freezeColumnMutation(dataTable, columnIndex))} />
+        )}
+        <MenuItem icon="trash" intent="danger" text="Delete" onClick={() => setColumnToDelete(columnIndex)} />
+      </Menu>
+    );
+  };
+
+  const dependentColumnNames = columnToDelete === null || dataTable.columns[columnToDelete] === undefined
+    ? []
+    : [
+      ...dataTable.getDependentColumns(dataTable.columns[columnToDelete].columnName).map((i) => dataTable.columns[i].columnName),
+      ...workbook.getLinkedDependents(activeTableName, dataTable.columns[columnToDelete].columnName),
+    ];
+  const tableDependentNames = isDeleteTableAlertOpen
+    ? dataTable.columns.flatMap((column) => workbook.getLinkedDependents(activeTableName, column.columnName))
+      .filter((name) => !name.startsWith(`${activeTableName}!`))
+    : [];
+  const linkedColumnNames = workbook.getLinkedColumnNames(activeTableName);
+
+  const formattedColumn = columnToFormat === null ? undefined : dataTable.columns[columnToFormat];
+  const formatSampleRow = formattedColumn === undefined ? undefined : visibleRows.find((rowIndex) => formattedColumn.getValue(rowIndex) !== '');
+
+  const headerNameRenderer = (name: string, columnIndex?: number) => {
+    const column = columnIndex === undefined ? undefined : dataTable.columns[columnIndex];
+    const sortDirection = column !== undefined && view.sort?.columnId == column.columnId ? view.sort.direction : null;
+    const isColumnFiltered = column !== undefined && view.filters[column.columnId] !== undefined;
+    const unit = column?.getUnit() ?? '';
+    return (
+      <span className="column-header-name">
+        {name}
+        {unit !== '' && <span className="column-header-unit">({unit})</span>}
+        {sortDirection !== null && <Icon icon={sortDirection == 'asc' ? 'sort-asc' : 'sort-desc'} size={12} />}
+        {isColumnFiltered && <Icon icon="filter" size={12} />}
+      </span>
+    );
   };
 
   const cols = dataTable.columns.map((column) => (
     <Column
       key={`${column.columnId}`}
       cellRenderer={cellRenderer}
+      columnHeaderCellRenderer={(columnIndex: number) => (
+        <ColumnHeaderCell2 name={column.columnName} index={columnIndex} menuRenderer={columnMenuRenderer} nameRenderer={headerNameRenderer} />
+      )}
       name={column.columnName}
     />
   ));
 
   return (
     <>
-      <ButtonGroup minimal={false}>
-        <Button icon="add" onClick={handleOpenNewColumnDialog}>Add column</Button>
-        <Button icon="edit" onClick={handleOpenEditColumnDialog}>Edit column</Button>
-      </ButtonGroup>
-      <NewColumnDialog isOpen={isNewColumnDialogOpen} onClose={handleCloseNewColumnDialog} onConfirm={handleNewColumn} />
-      <EditColumnDialog columns={columnList} isOpen={isEditColumnDialogOpen} onClose={handleCloseEditColumnDialog} onConfirm={handleColumnEdit} />
-      <Table2 defaultRowHeight={30} numRows={dataTable.getRowsToRender()} cellRendererDependencies={[columnList]}>
-        {cols}
-      </Table2>
+      <div className="workbook-tabs">
+        <Tabs id="workbook-tabs" selectedTabId={activeTableName} onChange={(tabId) => showTable(String(tabId))}>
+          {workbook.getTableNames().map((name) => <Tab key={name} id={name} title={name} />)}
+        </Tabs>
+        <Button icon="add" minimal onClick={handleAddTable}>Add table</Button>
+        <Button icon="cog" minimal onClick={() => setIsTableSettingsOpen(true)}>Table settings</Button>
+      </div>
+      <div className="table-toolbar">
+        <ButtonGroup minimal={false}>
+          <Button icon="add" onClick={handleOpenNewColumnDialog}>Add column</Button>
+          <Button icon="edit" onClick={handleOpenEditColumnDialog}>Edit column</Button>
+          <Button icon="undo" onClick={handleUndo} disabled={!history.canUndo()}>Undo</Button>
+          <Button icon="redo" onClick={handleRedo} disabled={!history.canRedo()}>Redo</Button>
+          <Button icon="pivot-table" onClick={() => setIsSummaryDialogOpen(true)}>Summary</Button>
+          <Button icon="timeline-line-chart" active={isChartOpen} onClick={() => setIsChartOpen(!isChartOpen)}>Chart</Button>
+          <Button icon="import" onClick={() => fileInputRef.current?.click()}>Import</Button>
+          <Button icon="export" onClick={() => setIsExportDialogOpen(true)}>Export</Button>
+          <Button icon="floppy-disk" onClick={() => setIsSaveProjectDialogOpen(true)}>Save project</Button>
+          <Button icon="folder-open" onClick={() => projectInputRef.current?.click()}>Open project</Button>
+        </ButtonGroup>
+        {calculationProgress < 1 && (
+          <div className="calculation-progress">
+            <ProgressBar value={calculationProgress} intent="primary" />
+            <span>Calculating rows... {Math.floor(calculationProgress * 100)}%</span>
+          </div>
+        )}
+      </div>
+      <div className="table-view-bar">
+        {isFiltered && <>
+          <span>Showing {visibleRows.length} of {dataTable.maxRow + 1} rows</span>
+          <Button icon="filter-remove" minimal small onClick={() => setView({ ...view, filters: {} })}>Clear filters</Button>
+        </>}
+        {dataTable.isThereColumnAggregations && (
+          <Switch
+            inline
+            label="Aggregate visible rows only"
+            checked={view.aggregationScope == 'visible'}
+            onChange={(event: React.FormEvent<HTMLInputElement>) => setView({ ...view, aggregationScope: event.currentTarget.checked ? 'visible' : 'all' })}
+          />
+        )}
+      </div>
+      <input ref={projectInputRef} type="file" accept=".json,application/json" hidden onChange={handleOpenProject} />
+      <input ref={fileInputRef} type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" hidden onChange={handleImportFile} />
+      <ExportDialog isOpen={isExportDialogOpen} hasAggregations={dataTable.isThereColumnAggregations} onClose={() => setIsExportDialogOpen(false)} onConfirm={handleExport} />
+      <SaveProjectDialog isOpen={isSaveProjectDialogOpen} dataSource={importedFileName} onClose={() => setIsSaveProjectDialogOpen(false)} onConfirm={handleSaveProject} />
+      <Alert isOpen={projectError !== null} intent="danger" icon="error" onClose={() => setProjectError(null)}>
+        <p>The project could not be opened. {projectError}</p>
+      </Alert>
+      <Alert isOpen={unmatchedColumnNames.length > 0} intent="warning" icon="warning-sign" onClose={() => setUnmatchedColumnNames([])}>
+        <p>These columns of the project were not found in the current data, their settings were not applied: {unmatchedColumnNames.join(', ')}</p>
+      </Alert>
+      <Alert
+        isOpen={columnToDelete !== null}
+        intent="danger"
+        icon="trash"
+        cancelButtonText="Cancel"
+        confirmButtonText="Delete"
+        onCancel={() => setColumnToDelete(null)}
+        onConfirm={handleDeleteColumn}
+      >
+        <p>Delete column {columnToDelete !== null ? dataTable.columns[columnToDelete]?.columnName : ''}?</p>
+        {dependentColumnNames.length > 0 && (
+          <p>These columns reference it and will show errors: {dependentColumnNames.join(', ')}</p>
+        )}
+      </Alert>
+      <ColumnFilterDialog
+        isOpen={columnToFilter !== null}
+        columnName={columnToFilter !== null ? dataTable.columns[columnToFilter]?.columnName ?? '' : ''}
+        filter={columnToFilter !== null ? view.filters[dataTable.columns[columnToFilter]?.columnId] : undefined}
+        onClose={() => setColumnToFilter(null)}
+        onConfirm={(filter: ColumnFilter) => columnToFilter !== null && handleFilter(columnToFilter, filter)}
+      />
+      <ColumnFormatDialog
+        isOpen={formattedColumn !== undefined}
+        columnName={formattedColumn?.columnName ?? ''}
+        format={formattedColumn?.format ?? defaultColumnFormat}
+        sampleValue={formatSampleRow !== undefined ? formattedColumn?.rows[String(formatSampleRow)] : undefined}
+        sampleType={formatSampleRow !== undefined ? formattedColumn?.getValueType(formatSampleRow) : undefined}
+        onClose={() => setColumnToFormat(null)}
+        onConfirm={handleFormat}
+      />
+      <SummaryDialog
+        isOpen={isSummaryDialogOpen}
+        table={dataTable}
+        tableVersion={tableVersion}
+        rowIndexes={view.aggregationScope == 'visible' ? visibleRows : undefined}
+        onClose={() => setIsSummaryDialogOpen(false)}
+      />
+      <TableSettingsDialog
+        isOpen={isTableSettingsOpen}
+        tableName={activeTableName}
+        tableNames={workbook.getTableNames()}
+        columns={columnList}
+        keyColumnId={workbook.getEntry(dataTable)?.keyColumnId ?? null}
+        canDelete={workbook.tables.length > 1}
+        onClose={() => setIsTableSettingsOpen(false)}
+        onConfirm={handleTableSettings}
+        onDelete={() => setIsDeleteTableAlertOpen(true)}
+      />
+      <Alert
+        isOpen={isDeleteTableAlertOpen}
+        intent="danger"
+        icon="trash"
+        cancelButtonText="Cancel"
+        confirmButtonText="Delete"
+        onCancel={() => setIsDeleteTableAlertOpen(false)}
+        onConfirm={handleDeleteTable}
+      >
+        <p>Delete table {activeTableName} and its data?</p>
+        {tableDependentNames.length > 0 && (
+          <p>These columns of other tables reference it and will show errors: {tableDependentNames.join(', ')}</p>
+        )}
+      </Alert>
+      <ImportReportDialog isOpen={importReport !== null} fileName={importedFileName} report={importReport} onClose={() => setImportReport(null)} />
+      <NewColumnDialog columns={columnList} linkedColumnNames={linkedColumnNames} isOpen={isNewColumnDialogOpen} onClose={handleCloseNewColumnDialog} onConfirm={handleNewColumn} />
+      <EditColumnDialog
+        columns={columnList}
+        linkedColumnNames={linkedColumnNames}
+        getRenamedLinkedExpressions={(oldName, newName) => workbook.getRenamedLinkedExpressions(activeTableName, oldName, newName)}
+        isOpen={isEditColumnDialogOpen}
+        onClose={handleCloseEditColumnDialog}
+        onConfirm={handleColumnEdit}
+      />
+      <div className="table-layout">
+        <div className="table-container">
+          {dataTable.columns.length == 0 ? (
+            <NonIdealState
+              icon="th"
+              title="This table is empty"
+              description="Import a CSV or TSV file to fill it."
+              action={<Button icon="import" onClick={() => fileInputRef.current?.click()}>Import</Button>}
+            />
+          ) : (
+            <Table2
+              ref={tableRef}
+              defaultRowHeight={30}
+              numRows={visibleRows.length + dataTable.aggregationRowCount}
+              cellRendererDependencies={[columnList, tableVersion, visibleRows, aggregationResults]}
+              onVisibleCellsChange={handleVisibleCellsChange}
+              selectedRegions={selectedRegions}
+              onSelection={setSelectedRegions}
+              enableColumnReordering
+              onColumnsReordered={handleColumnsReordered}
+            >
+              {cols}
+            </Table2>
+          )}
+        </div>
+        {isChartOpen && (
+          <ChartPanel
+            table={dataTable}
+            tableVersion={tableVersion}
+            columnList={columnList}
+            rowIndexes={visibleRows}
+            calculationProgress={calculationProgress}
+            selectedRow={selectedRow}
+            onSelectRow={handleSelectRow}
+          />
+        )}
+      </div>
     </>
   );
 };
@@ -1,24 +1,30 @@
 import React from 'react';
 
-import { Button, Dialog, FormGroup, InputGroup, Classes, HTMLSelect } from '@blueprintjs/core';
-import { Tooltip2 } from "@blueprintjs/popover2";
-import { ColumnAggregations, ColumnData } from './columnDataUtils';
+import { Button, Callout, Dialog, FormGroup, InputGroup, Classes, HTMLSelect } from '@blueprintjs/core';
+import ExpressionEditor from './ExpressionEditor';
+import AggregationsEditor from './AggregationsEditor';
+import { getRenamedExpressions, validateAggregation, validateColumnName, validateExpression } from './expressionSyntax';
+import { ColumnAggregator, ColumnData, validateUnit } from './columnDataUtils';
+import { RenamedLinkedExpression } from './workbook';
 
 interface EditColumnDialogProps {
     isOpen: boolean;
     columns: ColumnData[]
+    linkedColumnNames: string[];
+    getRenamedLinkedExpressions: (oldName: string, newName: string) => RenamedLinkedExpression[];
     onClose: () => void;
-    onConfirm: (oldName: string, newName: string, newExpression: string, aggregation: ColumnAggregations) => void;
+    onConfirm: (oldName: string, newName: string, newExpression: string, aggregations: ColumnAggregator[], unit: string) => void;
 }
 
-const NewColumnDialog: React.FC<EditColumnDialogProps> = ({ isOpen, onClose, onConfirm, columns }) => {
+const NewColumnDialog: React.FC<EditColumnDialogProps> = ({ isOpen, onClose, onConfirm, columns, linkedColumnNames, getRenamedLinkedExpressions }) => {
     const [expression, setExpression] = React.useState<string>('');
     const [columnName, setColumnName] = React.useState<string>('');
-    const [aggregator, setAgregator] = React.useState<ColumnAggregations>(ColumnAggregations.None);
+    const [aggregations, setAggregations] = React.useState<ColumnAggregator[]>([]);
+    const [unit, setUnit] = React.useState<string>('');
     const [selectedColumn, setSelectedColumn] = React.useState<string>('');
 
-    const handleExpressionChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        setExpression(e.target.value);
+    const handleExpressionChange = (value: string) => {
+        setExpression(value);
     };
 
     const handleColumnNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -38,23 +44,32 @@ const NewColumnDialog: React.FC<EditColumnDialogProps> = ({ isOpen, onClose, onC
         setSelectedColumn(event.target.value);
         setColumnName(selectedColumn.columnName)
         setExpression(selectedColumn.calculation.expression)
-        setAgregator(selectedColumn.aggregation.operation)
-    };
-
-    const handleSelectedAggregator = (event: React.ChangeEvent<HTMLSelectElement>) => {
-        const aggregator = ColumnAggregations[event.target.value as keyof typeof ColumnAggregations]
-        setAgregator(aggregator)
+        setAggregations(selectedColumn.aggregations)
+        setUnit(selectedColumn.unit)
     };
 
     const handleConfirm = () => {
-        onConfirm(selectedColumn, columnName, expression, aggregator);
+        onConfirm(selectedColumn, columnName, expression, aggregations, unit);
         setSelectedColumn('');
         setExpression('');
         setColumnName('');
-        setAgregator(ColumnAggregations.None);
+        setAggregations([]);
+        setUnit('');
     };
 
-    const tooltipContent = (
+    const columnNames = columns.map((column) => column.columnName);
+    const referenceableNames = [...columnNames, ...linkedColumnNames];
+    const diagnostics = validateExpression(expression, referenceableNames);
+    const selectedColumnType = getColumn(selectedColumn).columnType;
+    const unitError = validateUnit(unit);
+    const areAggregationsValid = aggregations.every((aggregation) => validateAggregation(aggregation, columnNames).length == 0);
+    const nameError = validateColumnName(columnName, columnNames, selectedColumn);
+    const isNameValid = nameError === null;
+    const renamedExpressions = selectedColumn !== '' && isNameValid ? getRenamedExpressions(columns, selectedColumn, columnName) : [];
+    const renamedLinkedExpressions = selectedColumn !== '' && isNameValid ? getRenamedLinkedExpressions(selectedColumn, columnName) : [];
+    const renamedCount = renamedExpressions.length + renamedLinkedExpressions.length;
+
+    const expressionHelp = diagnostics.length > 0 ? diagnostics.map((diagnostic) => diagnostic.message).join('. ') : (
         <span>
             Valid expressions include numbers, other column names wrapped in '#' characters, and mathematical operators. 
             E.g., "#Cell Density# * (#Volume# + 10)", where 'Cell Desity' and 'Volume' are column names.
@@ -80,6 +95,8 @@ const NewColumnDialog: React.FC<EditColumnDialogProps> = ({ isOpen, onClose, onC
                     label="New column name"
                     labelFor="text-input"
                     labelInfo=""
+                    helperText={nameError ?? ''}
+                    intent={isNameValid ? 'none' : 'danger'}
                     className={Classes.FORM_GROUP}
                 >
                     <InputGroup 
@@ -90,31 +107,67 @@ const NewColumnDialog: React.FC<EditColumnDialogProps> = ({ isOpen, onClose, onC
                         className={Classes.INPUT_GROUP}
                         />
                 </FormGroup>
-                <FormGroup label="Aggregation" labelFor="select-input">
-                    <HTMLSelect id="select-input" value={aggregator} onChange={handleSelectedAggregator} fill>
-                        <option value="">Select an option...</option>
-                        {Object.values(ColumnAggregations).map((aggregation) => <option key={aggregation} value={aggregation}>{aggregation}</option>)}
-                    </HTMLSelect>
-                </FormGroup>
-                {getColumn(selectedColumn).columnType == 'calculated' ? <FormGroup
-                    label="Calculation"
-                    labelFor="text-input"
+                {renamedCount > 0 ?
+                    <Callout intent="primary" title={`${renamedCount} columns reference "${selectedColumn}" and will be updated`}>
+                        <ul>
+                            {renamedExpressions.map(({ columnIndex, expression, renamedExpression }) => (
+                                <li key={columns[columnIndex].columnId}>
+                                    {columns[columnIndex].columnName}: <code>{expression}</code> becomes <code>{renamedExpression}</code>
+                                </li>
+                            ))}
+                            {renamedLinkedExpressions.map(({ tableName, columnName, expression, renamedExpression }) => (
+                                <li key={`${tableName}!${columnName}`}>
+                                    {tableName}!{columnName}: <code>{expression}</code> becomes <code>{renamedExpression}</code>
+                                </li>
+                            ))}
+                        </ul>
+                    </Callout>
+                : ''}
+                {selectedColumnType != 'time' ? <FormGroup
+                    label={selectedColumnType == 'calculated' ? 'Display unit' : 'Unit'}
+                    labelFor="unit-input"
+                    labelInfo="(optional)"
+                    helperText={unitError ?? (selectedColumnType == 'calculated'
+                        ? 'Results are converted to this unit. Leave empty to keep the unit derived from the referenced columns.'
+                        : 'Unit of the values, eg.: "mL" or "cells/mL"')}
+                    intent={unitError === null ? 'none' : 'danger'}
                     className={Classes.FORM_GROUP}
                 >
-                    <Tooltip2 content={tooltipContent} hoverOpenDelay={300}>
-                        <InputGroup 
-                            id="text-input" 
-                            placeholder="Type expression here" 
-                            value={expression} 
-                            onChange={handleExpressionChange}
-                            className={Classes.INPUT_GROUP}
+                    <InputGroup
+                        id="unit-input"
+                        value={unit}
+                        placeholder={selectedColumnType == 'calculated' ? getColumn(selectedColumn).getUnit() : ''}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setUnit(e.target.value)}
+                        className={Classes.INPUT_GROUP}
                         />
-                    </Tooltip2>
+                </FormGroup> : ''}
+                <AggregationsEditor aggregations={aggregations} columnNames={columnNames} onChange={setAggregations} />
+                {selectedColumnType == 'calculated' ? <FormGroup
+                    label="Calculation"
+                    labelFor="expression-input"
+                    helperText={expressionHelp}
+                    intent={diagnostics.length > 0 ? 'danger' : 'none'}
+                    className={Classes.FORM_GROUP}
+                >
+                    <ExpressionEditor
+                        id="expression-input"
+                        value={expression}
+                        columnNames={referenceableNames}
+                        diagnostics={diagnostics}
+                        onChange={handleExpressionChange}
+                    />
                 </FormGroup>:''} </> : ''}
             </div>
             <div className={Classes.DIALOG_FOOTER}>
                 <div className={Classes.DIALOG_FOOTER_ACTIONS}>
-                    {selectedColumn !== '' ? <Button intent="primary" onClick={handleConfirm} className={Classes.BUTTON}>Confirm</Button> : ''}
+                    <Button
+                        intent="primary"
+                        onClick={handleConfirm}
+                        disabled={selectedColumn === '' || !isNameValid || unitError !== null || !areAggregationsValid || (selectedColumnType == 'calculated' && diagnostics.length > 0)}
+                        className={Classes.BUTTON}
+                    >
+                        Confirm
+                    </Button>
                 </div>
             </div>
         </Dialog>
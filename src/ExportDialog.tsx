@@ -0,0 +1,93 @@
+import React from 'react';
+
+import { Button, Checkbox, Dialog, FormGroup, Classes, HTMLSelect, NumericInput } from '@blueprintjs/core';
+import { defaultExportOptions, ErrorCellFormat, ExportFormat, ExportOptions } from './tableExport';
+
+interface ExportDialogProps {
+    isOpen: boolean;
+    hasAggregations: boolean;
+    onClose: () => void;
+    onConfirm: (options: ExportOptions) => void;
+}
+
+const formatLabels: { [format in ExportFormat]: string } = {
+    'csv': 'CSV',
+    'excel-csv': 'CSV for Excel',
+    'json': 'JSON',
+};
+
+const errorCellLabels: { [format in ErrorCellFormat]: string } = {
+    'label': 'Error type',
+    'message': 'Error message',
+    'blank': 'Empty cell',
+};
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ isOpen, hasAggregations, onClose, onConfirm }) => {
+    const [options, setOptions] = React.useState<ExportOptions>(defaultExportOptions);
+
+    const handleFormatChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+        setOptions({ ...options, format: event.target.value as ExportFormat });
+    };
+
+    const handleErrorCellsChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+        setOptions({ ...options, errorCells: event.target.value as ErrorCellFormat });
+    };
+
+    const handleDecimalPlacesChange = (value: number, valueAsString: string) => {
+        setOptions({ ...options, decimalPlaces: valueAsString === '' || isNaN(value) ? null : value });
+    };
+
+    const handleApplyColumnFormatsChange = (event: React.FormEvent<HTMLInputElement>) => {
+        setOptions({ ...options, applyColumnFormats: event.currentTarget.checked });
+    };
+
+    const handleIncludeAggregationsChange = (event: React.FormEvent<HTMLInputElement>) => {
+        setOptions({ ...options, includeAggregations: event.currentTarget.checked });
+    };
+
+    return (
+        <Dialog 
+            isOpen={isOpen} 
+            onClose={onClose} 
+            title="Export table"
+            className={Classes.DIALOG}
+        >
+            <div className={Classes.DIALOG_BODY}>
+                <FormGroup label="Format" labelFor="export-format-select">
+                    <HTMLSelect id="export-format-select" value={options.format} onChange={handleFormatChange} fill>
+                        {Object.entries(formatLabels).map(([format, label]) => <option key={format} value={format}>{label}</option>)}
+                    </HTMLSelect>
+                </FormGroup>
+                <FormGroup label="Cells with errors" labelFor="export-errors-select">
+                    <HTMLSelect id="export-errors-select" value={options.errorCells} onChange={handleErrorCellsChange} fill>
+                        {Object.entries(errorCellLabels).map(([format, label]) => <option key={format} value={format}>{label}</option>)}
+                    </HTMLSelect>
+                </FormGroup>
+                <Checkbox checked={options.applyColumnFormats} label="Export values as displayed, with the column formats" onChange={handleApplyColumnFormatsChange} />
+                <FormGroup label="Decimal places" labelFor="export-decimals-input" labelInfo="(empty for full precision)" disabled={options.applyColumnFormats}>
+                    <NumericInput
+                        id="export-decimals-input"
+                        min={0}
+                        max={20}
+                        minorStepSize={null}
+                        value={options.decimalPlaces ?? ''}
+                        onValueChange={handleDecimalPlacesChange}
+                        disabled={options.applyColumnFormats}
+                        fill
+                    />
+                </FormGroup>
+                {hasAggregations ?
+                    <Checkbox checked={options.includeAggregations} label="Include aggregations" onChange={handleIncludeAggregationsChange} />
+                : ''}
+            </div>
+            <div className={Classes.DIALOG_FOOTER}>
+                <div className={Classes.DIALOG_FOOTER_ACTIONS}>
+                    <Button intent="primary" onClick={() => onConfirm(options)} className={Classes.BUTTON}>Export</Button>
+                </div>
+            </div>
+        </Dialog>
+    );
+    
+};
+
+export default ExportDialog;
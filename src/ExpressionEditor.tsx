@@ -0,0 +1,158 @@
+import React from 'react';
+
+import { Classes, Menu, MenuItem } from '@blueprintjs/core';
+import { Popover2 } from "@blueprintjs/popover2";
+import { ExpressionDiagnostic, getReferenceAtCaret, tokenizeExpression } from './expressionSyntax';
+
+interface ExpressionEditorProps {
+    id?: string;
+    value: string;
+    columnNames: string[];
+    diagnostics: ExpressionDiagnostic[];
+    onChange: (value: string) => void;
+}
+
+/**
+ * Splits the expression into highlighted segments. Segments break at token boundaries and
+ * at diagnostic boundaries, so errors can be underlined inside a token.
+ */
+const getHighlightSegments = (value: string, diagnostics: ExpressionDiagnostic[]) => {
+    const tokens = tokenizeExpression(value);
+    const boundaries = new Set<number>([0, value.length]);
+    tokens.forEach((token) => boundaries.add(token.start));
+    diagnostics.forEach((diagnostic) => {
+        boundaries.add(diagnostic.start);
+        boundaries.add(Math.min(diagnostic.end, value.length));
+    });
+    const sortedBoundaries = Array.from(boundaries).sort((a, b) => a - b);
+    const segments = [];
+    for (let i = 0; i < sortedBoundaries.length - 1; i++) {
+        const start = sortedBoundaries[i];
+        const end = sortedBoundaries[i + 1];
+        const token = tokens.find((token) => start >= token.start && start < token.end);
+        const hasError = diagnostics.some((diagnostic) => start < diagnostic.end && end > diagnostic.start);
+        segments.push({ start, text: value.slice(start, end), type: token?.type ?? 'unknown', hasError });
+    }
+    return segments;
+};
+
+/**
+ * Single line expression input. Column references, operators and functions are highlighted,
+ * diagnostics are underlined and column names are suggested after typing '#'.
+ */
+const ExpressionEditor: React.FC<ExpressionEditorProps> = ({ id, value, columnNames, diagnostics, onChange }) => {
+    const inputRef = React.useRef<HTMLInputElement>(null);
+    const highlightRef = React.useRef<HTMLDivElement>(null);
+    const [caret, setCaret] = React.useState<number | null>(null);
+    const [activeSuggestion, setActiveSuggestion] = React.useState<number>(0);
+
+    const reference = caret === null ? null : getReferenceAtCaret(value, caret);
+    const suggestions = reference === null ? [] : columnNames.filter((columnName) =>
+        columnName.toLowerCase().includes(reference.prefix.toLowerCase())
+    );
+    const isSuggesting = suggestions.length > 0;
+
+    React.useEffect(() => {
+        if (highlightRef.current !== null && inputRef.current !== null) {
+            highlightRef.current.scrollLeft = inputRef.current.scrollLeft;
+        }
+    });
+
+    const updateCaret = () => {
+        setCaret(inputRef.current?.selectionStart ?? null);
+    };
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        onChange(e.target.value);
+        setCaret(e.target.selectionStart);
+        setActiveSuggestion(0);
+    };
+
+    const insertSuggestion = (columnName: string) => {
+        if (reference === null) return;
+        const inserted = `#${columnName}#`;
+        const newValue = value.slice(0, reference.start) + inserted + value.slice(reference.end);
+        const newCaret = reference.start + inserted.length;
+        onChange(newValue);
+        setCaret(null);
+        window.requestAnimationFrame(() => {
+            inputRef.current?.focus();
+            inputRef.current?.setSelectionRange(newCaret, newCaret);
+        });
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (!isSuggesting) return;
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            const step = e.key === 'ArrowDown' ? 1 : -1;
+            setActiveSuggestion((activeSuggestion + step + suggestions.length) % suggestions.length);
+        } else if (e.key === 'Enter' || e.key === 'Tab') {
+            e.preventDefault();
+            insertSuggestion(suggestions[Math.min(activeSuggestion, suggestions.length - 1)]);
+        } else if (e.key === 'Escape') {
+            e.stopPropagation();
+            setCaret(null);
+        }
+    };
+
+    const suggestionMenu = (
+        <Menu>
+            {suggestions.map((columnName, i) => (
+                <MenuItem
+                    key={columnName}
+                    text={columnName}
+                    active={i === activeSuggestion}
+                    onMouseDown={(e: React.MouseEvent) => e.preventDefault()}
+                    onClick={() => insertSuggestion(columnName)}
+                />
+            ))}
+        </Menu>
+    );
+
+    return (
+        <Popover2
+            isOpen={isSuggesting}
+            content={suggestionMenu}
+            placement="bottom-start"
+            autoFocus={false}
+            enforceFocus={false}
+            minimal
+            fill
+        >
+            <div className="expression-editor">
+                <input
+                    id={id}
+                    ref={inputRef}
+                    className={`${Classes.INPUT} expression-editor-input`}
+                    placeholder="Type expression here"
+                    value={value}
+                    spellCheck={false}
+                    autoComplete="off"
+                    onChange={handleChange}
+                    onKeyDown={handleKeyDown}
+                    onKeyUp={(e: React.KeyboardEvent<HTMLInputElement>) => e.key !== 'Escape' && updateCaret()}
+                    onClick={updateCaret}
+                    onScroll={() => {
+                        if (highlightRef.current !== null && inputRef.current !== null) {
+                            highlightRef.current.scrollLeft = inputRef.current.scrollLeft;
+                        }
+                    }}
+                    onBlur={() => setCaret(null)}
+                />
+                <div ref={highlightRef} className="expression-editor-highlight" aria-hidden>
+                    {getHighlightSegments(value, diagnostics).map((segment) => (
+                        <span
+                            key={segment.start}
+                            className={`expression-token-${segment.type}${segment.hasError ? ' expression-token-error' : ''}`}
+                        >
+                            {segment.text}
+                        </span>
+                    ))}
+                </div>
+            </div>
+        </Popover2>
+    );
+};
+
+export default ExpressionEditor;
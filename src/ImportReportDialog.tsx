@@ -0,0 +1,64 @@
+import React from 'react';
+
+import { Button, Callout, Classes, Dialog } from '@blueprintjs/core';
+import { ImportReport } from './csvImport';
+
+interface ImportReportDialogProps {
+    isOpen: boolean;
+    fileName: string;
+    report: ImportReport | null;
+    onClose: () => void;
+}
+
+const delimiterNames: { [key: string]: string } = {
+    ',': 'comma',
+    '\t': 'tab',
+    ';': 'semicolon',
+    '|': 'pipe',
+};
+
+const maxListedRows = 20;
+
+const ImportReportDialog: React.FC<ImportReportDialogProps> = ({ isOpen, fileName, report, onClose }) => {
+    if (report === null) return null;
+    const skippedRows = report.skippedRows;
+
+    return (
+        <Dialog 
+            isOpen={isOpen} 
+            onClose={onClose} 
+            title={`Imported ${fileName}`}
+            className={Classes.DIALOG}
+        >
+            <div className={Classes.DIALOG_BODY}>
+                <p>
+                    Imported {report.importedRows} rows using {delimiterNames[report.delimiter] ?? report.delimiter} as
+                    delimiter. {report.hasHeader ? 'Column names were read from the first row.' : 'No header row was found, columns were named automatically.'}
+                </p>
+                {report.renamedColumns.length > 0 ?
+                    <Callout intent="primary" title={`${report.renamedColumns.length} columns were renamed`}>
+                        Columns were renamed so expressions can reference each of them:
+                        <ul>
+                            {report.renamedColumns.map(({ name, newName, reason }) => <li key={newName}>"{name}" became "{newName}": {reason}</li>)}
+                        </ul>
+                    </Callout>
+                : ''}
+                {skippedRows.length > 0 ?
+                    <Callout intent="warning" title={`${skippedRows.length} rows were skipped`}>
+                        <ul>
+                            {skippedRows.slice(0, maxListedRows).map((issue) => <li key={issue.line}>Line {issue.line}: {issue.message}</li>)}
+                        </ul>
+                        {skippedRows.length > maxListedRows ? `And ${skippedRows.length - maxListedRows} more.` : ''}
+                    </Callout>
+                : ''}
+            </div>
+            <div className={Classes.DIALOG_FOOTER}>
+                <div className={Classes.DIALOG_FOOTER_ACTIONS}>
+                    <Button intent="primary" onClick={onClose} className={Classes.BUTTON}>Close</Button>
+                </div>
+            </div>
+        </Dialog>
+    );
+};
+
+export default ImportReportDialog;
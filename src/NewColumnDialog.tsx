@@ -1,40 +1,49 @@
 import React from 'react';
 
-import { Button, Dialog, FormGroup, InputGroup, Classes, HTMLSelect } from '@blueprintjs/core';
-import { Tooltip2 } from "@blueprintjs/popover2";
-import { ColumnAggregations } from './columnDataUtils';
+import { Button, Dialog, FormGroup, InputGroup, Classes } from '@blueprintjs/core';
+import ExpressionEditor from './ExpressionEditor';
+import AggregationsEditor from './AggregationsEditor';
+import { validateAggregation, validateColumnName, validateExpression } from './expressionSyntax';
+import { ColumnAggregator, ColumnData, validateUnit } from './columnDataUtils';
 
 interface NewColumnDialogProps {
     isOpen: boolean;
+    columns: ColumnData[];
+    linkedColumnNames: string[];
     onClose: () => void;
-    onConfirm: (name: string, expression: string, aggregation: ColumnAggregations)=> void;
+    onConfirm: (name: string, expression: string, aggregations: ColumnAggregator[], unit: string)=> void;
 }
 
-const NewColumnDialog: React.FC<NewColumnDialogProps> = ({ isOpen, onClose, onConfirm }) => {
+const NewColumnDialog: React.FC<NewColumnDialogProps> = ({ isOpen, onClose, onConfirm, columns, linkedColumnNames }) => {
     const [expression, setExpression] = React.useState<string>('');
     const [columnName, setColumnName] = React.useState<string>('');
-    const [aggregator, setAgregator] = React.useState<ColumnAggregations>(ColumnAggregations.None);
+    const [aggregations, setAggregations] = React.useState<ColumnAggregator[]>([]);
+    const [unit, setUnit] = React.useState<string>('');
 
-    const handleExpressionChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        setExpression(e.target.value);
+    const handleExpressionChange = (value: string) => {
+        setExpression(value);
     };
 
     const handleColumnNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         setColumnName(e.target.value);
     };
 
-    const handleSelectedAggregator = (event: React.ChangeEvent<HTMLSelectElement>) => {
-        const aggregator = ColumnAggregations[event.target.value as keyof typeof ColumnAggregations]
-        setAgregator(aggregator)
-    };
-
     const handleConfirm = () => {
-        onConfirm(columnName, expression, aggregator);
+        onConfirm(columnName, expression, aggregations, unit);
         setExpression('');
         setColumnName('')
+        setAggregations([]);
+        setUnit('');
     };
 
-    const tooltipContent = (
+    const columnNames = columns.map((column) => column.columnName);
+    const referenceableNames = [...columnNames, ...linkedColumnNames];
+    const nameError = validateColumnName(columnName, columnNames);
+    const diagnostics = validateExpression(expression, referenceableNames);
+    const unitError = validateUnit(unit);
+    const areAggregationsValid = aggregations.every((aggregation) => validateAggregation(aggregation, columnNames).length == 0);
+
+    const expressionHelp = diagnostics.length > 0 ? diagnostics.map((diagnostic) => diagnostic.message).join('. ') : (
         <span>
             Valid expressions include numbers, other column names wrapped in '#' characters, and mathematical operators. 
             E.g., "#Cell Density# * (#Volume# + 10)", where 'Cell Desity' and 'Volume' are column names.
@@ -53,6 +62,8 @@ const NewColumnDialog: React.FC<NewColumnDialogProps> = ({ isOpen, onClose, onCo
                     label="New column name"
                     labelFor="text-input"
                     labelInfo="(required)"
+                    helperText={columnName !== '' ? nameError : ''}
+                    intent={columnName !== '' && nameError !== null ? 'danger' : 'none'}
                     className={Classes.FORM_GROUP}
                 >
                     <InputGroup 
@@ -63,34 +74,49 @@ const NewColumnDialog: React.FC<NewColumnDialogProps> = ({ isOpen, onClose, onCo
                         className={Classes.INPUT_GROUP}
                         />
                 </FormGroup>
-                <FormGroup label="Aggregation" labelFor="select-input">
-                    <HTMLSelect id="select-input" value={aggregator} onChange={handleSelectedAggregator} fill>
-                        <option value="">Select an option...</option>
-                        {Object.values(ColumnAggregations).map((aggregation) => <option key={aggregation} value={aggregation}>{aggregation}</option>)}
-                    </HTMLSelect>
-                </FormGroup>
                 <FormGroup
                     label="Calculation"
-                    labelFor="text-input"
+                    labelFor="expression-input"
+                    helperText={expressionHelp}
+                    intent={diagnostics.length > 0 ? 'danger' : 'none'}
                     labelInfo="(required)"
                     className={Classes.FORM_GROUP}
                 >
-                    <Tooltip2 content={tooltipContent} hoverOpenDelay={300}>
-                        <InputGroup 
-                            id="text-input" 
-                            placeholder="Type expression here" 
-                            value={expression} 
-                            onChange={handleExpressionChange}
-                            className={Classes.INPUT_GROUP}
+                    <ExpressionEditor
+                        id="expression-input"
+                        value={expression}
+                        columnNames={referenceableNames}
+                        diagnostics={diagnostics}
+                        onChange={handleExpressionChange}
+                    />
+                </FormGroup>
+                <FormGroup
+                    label="Display unit"
+                    labelFor="unit-input"
+                    labelInfo="(optional)"
+                    helperText={unitError ?? 'Results are converted to this unit, eg.: "g/L". Leave empty to keep the unit derived from the referenced columns.'}
+                    intent={unitError === null ? 'none' : 'danger'}
+                    className={Classes.FORM_GROUP}
+                >
+                    <InputGroup
+                        id="unit-input"
+                        value={unit}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setUnit(e.target.value)}
+                        className={Classes.INPUT_GROUP}
                         />
-                    </Tooltip2>
                 </FormGroup>
+                <AggregationsEditor aggregations={aggregations} columnNames={columnNames} onChange={setAggregations} />
             </div>
             <div className={Classes.DIALOG_FOOTER}>
                 <div className={Classes.DIALOG_FOOTER_ACTIONS}>
-                    {columnName !== '' && expression !== '' ? 
-                        <Button intent="primary" onClick={handleConfirm} className={Classes.BUTTON}>Confirm</Button>
-                    : ''}
+                    <Button
+                        intent="primary"
+                        onClick={handleConfirm}
+                        disabled={nameError !== null || expression === '' || diagnostics.length > 0 || unitError !== null || !areAggregationsValid}
+                        className={Classes.BUTTON}
+                    >
+                        Confirm
+                    </Button>
                 </div>
             </div>
         </Dialog>
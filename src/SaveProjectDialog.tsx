@@ -0,0 +1,65 @@
+import React from 'react';
+
+import { Button, Checkbox, Dialog, FormGroup, InputGroup, Classes } from '@blueprintjs/core';
+
+interface SaveProjectDialogProps {
+    isOpen: boolean;
+    dataSource: string;
+    onClose: () => void;
+    onConfirm: (name: string, embedData: boolean) => void;
+}
+
+const SaveProjectDialog: React.FC<SaveProjectDialogProps> = ({ isOpen, dataSource, onClose, onConfirm }) => {
+    const [projectName, setProjectName] = React.useState<string>('project');
+    const [embedData, setEmbedData] = React.useState<boolean>(true);
+
+    const handleProjectNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        setProjectName(e.target.value);
+    };
+
+    const handleEmbedDataChange = (event: React.FormEvent<HTMLInputElement>) => {
+        setEmbedData(event.currentTarget.checked);
+    };
+
+    return (
+        <Dialog 
+            isOpen={isOpen} 
+            onClose={onClose} 
+            title="Save project"
+            className={Classes.DIALOG}
+        >
+            <div className={Classes.DIALOG_BODY}>
+                <FormGroup
+                    label="Project name"
+                    labelFor="project-name-input"
+                    labelInfo="(required)"
+                    className={Classes.FORM_GROUP}
+                >
+                    <InputGroup 
+                        id="project-name-input" 
+                        placeholder="Type project name here" 
+                        value={projectName} 
+                        onChange={handleProjectNameChange}
+                        className={Classes.INPUT_GROUP}
+                        />
+                </FormGroup>
+                <FormGroup
+                    helperText={embedData ? 'The project will open with the same data.' : 
+                        `Only the columns are saved${dataSource !== '' ? `, the data is referenced as ${dataSource}` : ''}. Opening the project applies its calculated columns to the data being displayed.`}
+                >
+                    <Checkbox checked={embedData} label="Include data" onChange={handleEmbedDataChange} />
+                </FormGroup>
+            </div>
+            <div className={Classes.DIALOG_FOOTER}>
+                <div className={Classes.DIALOG_FOOTER_ACTIONS}>
+                    {projectName !== '' ? 
+                        <Button intent="primary" onClick={() => onConfirm(projectName, embedData)} className={Classes.BUTTON}>Save</Button>
+                    : ''}
+                </div>
+            </div>
+        </Dialog>
+    );
+    
+};
+
+export default SaveProjectDialog;
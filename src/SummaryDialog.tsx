@@ -0,0 +1,159 @@
+import React from 'react';
+
+import { Button, Callout, Checkbox, Dialog, FormGroup, HTMLSelect, HTMLTable, NumericInput, Classes, Radio, RadioGroup } from '@blueprintjs/core';
+import { AggregationResult, ColumnAggregations, ColumnAggregator, ColumnData, DataTable, calculationErrorLabels } from './columnDataUtils';
+import { pivotTable, summarizeGroups } from './tableSummary';
+
+interface SummaryDialogProps {
+    isOpen: boolean;
+    table: DataTable;
+    tableVersion: number;
+    rowIndexes?: number[];
+    onClose: () => void;
+}
+
+type SummaryMode = 'group' | 'pivot';
+
+/**
+ * Renders an aggregation result in a summary cell, formatted like the values of the
+ * aggregated column. Results that couldn't be evaluated show the error label, with the
+ * reason in the title.
+ */
+const renderResult = (result: AggregationResult | null, column: ColumnData) => {
+    if (result === null) return '';
+    if (result.value === null) return <span title={result.error ?? ''}>{calculationErrorLabels['evaluation']}</span>;
+    return column.getFormattedAggregation(result);
+};
+
+const SummaryDialog: React.FC<SummaryDialogProps> = ({ isOpen, table, tableVersion, rowIndexes, onClose }) => {
+    const [mode, setMode] = React.useState<SummaryMode>('group');
+    const [keyColumnIds, setKeyColumnIds] = React.useState<string[]>([]);
+    const [rowKeyId, setRowKeyId] = React.useState<string>('');
+    const [columnKeyId, setColumnKeyId] = React.useState<string>('');
+    const [valueColumnId, setValueColumnId] = React.useState<string>('');
+    const [operation, setOperation] = React.useState<ColumnAggregations>(ColumnAggregations.Sum);
+    const [percentile, setPercentile] = React.useState<number>(50);
+
+    const findColumn = (columnId: string) => table.columns.findIndex((column) => column.columnId === columnId);
+
+    const handleKeyColumnChange = (columnId: string, event: React.FormEvent<HTMLInputElement>) => {
+        const checked = event.currentTarget.checked;
+        setKeyColumnIds(checked ? [...keyColumnIds, columnId] : keyColumnIds.filter((id) => id !== columnId));
+    };
+
+    const keyColumnIndexes = keyColumnIds.map(findColumn).filter((columnIndex) => columnIndex !== -1);
+    const groupSummary = React.useMemo(
+        () => isOpen && mode == 'group' && keyColumnIndexes.length > 0 ? summarizeGroups(table, keyColumnIndexes, rowIndexes) : null,
+        [isOpen, mode, table, tableVersion, rowIndexes, keyColumnIndexes.join(',')],
+    );
+
+    const pivotIndexes = [findColumn(rowKeyId), findColumn(columnKeyId), findColumn(valueColumnId)];
+    const pivotSummary = React.useMemo(() => {
+        if (!isOpen || mode != 'pivot' || pivotIndexes.includes(-1)) return null;
+        const aggregation = new ColumnAggregator(operation, { percentile });
+        return pivotTable(table, pivotIndexes[0], pivotIndexes[1], pivotIndexes[2], aggregation, rowIndexes);
+    }, [isOpen, mode, table, tableVersion, rowIndexes, pivotIndexes.join(','), operation, percentile]);
+
+    const columnOptions = [
+        <option key="" value="">Select a column...</option>,
+        ...table.columns.map((column) => <option key={column.columnId} value={column.columnId}>{column.columnName}</option>),
+    ];
+    const operations = Object.values(ColumnAggregations).filter((operation) => operation !== ColumnAggregations.None && operation !== ColumnAggregations.Custom);
+
+    return (
+        <Dialog
+            isOpen={isOpen}
+            onClose={onClose}
+            title="Summary"
+            className={`${Classes.DIALOG} summary-dialog`}
+        >
+            <div className={Classes.DIALOG_BODY}>
+                <RadioGroup selectedValue={mode} onChange={(event: React.FormEvent<HTMLInputElement>) => setMode(event.currentTarget.value as SummaryMode)} inline>
+                    <Radio label="Group by" value="group" />
+                    <Radio label="Pivot" value="pivot" />
+                </RadioGroup>
+                {mode == 'group' ? <>
+                    <FormGroup label="Key columns" helperText="Every other column is summarized with its aggregations">
+                        {table.columns.map((column) => (
+                            <Checkbox
+                                key={column.columnId}
+                                label={column.columnName}
+                                checked={keyColumnIds.includes(column.columnId)}
+                                onChange={(event: React.FormEvent<HTMLInputElement>) => handleKeyColumnChange(column.columnId, event)}
+                                inline
+                            />
+                        ))}
+                    </FormGroup>
+                    {groupSummary !== null && groupSummary.columns.length == 0 ?
+                        <Callout intent="primary">No other column has aggregations. Add aggregations to the columns to summarize them.</Callout>
+                    : ''}
+                    {groupSummary !== null ?
+                        <div className="summary-table">
+                            <HTMLTable condensed striped bordered>
+                                <thead>
+                                    <tr>
+                                        {groupSummary.keyColumns.map((name) => <th key={name}>{name}</th>)}
+                                        <th>Rows</th>
+                                        {groupSummary.columns.map((column) => <th key={column.label}>{column.label}</th>)}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {groupSummary.groups.map((group) => (
+                                        <tr key={JSON.stringify(group.keys)}>
+                                            {group.keys.map((key, i) => <td key={i}>{key}</td>)}
+                                            <td>{group.rowIndexes.length}</td>
+                                            {group.results.map((result, i) => <td key={i}>{renderResult(result, table.columns[groupSummary.columns[i].columnIndex])}</td>)}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </HTMLTable>
+                        </div>
+                    : ''}
+                </> : <>
+                    <FormGroup label="Rows" labelFor="pivot-rows-select" inline>
+                        <HTMLSelect id="pivot-rows-select" value={rowKeyId} onChange={(event) => setRowKeyId(event.target.value)}>{columnOptions}</HTMLSelect>
+                    </FormGroup>
+                    <FormGroup label="Columns" labelFor="pivot-columns-select" inline>
+                        <HTMLSelect id="pivot-columns-select" value={columnKeyId} onChange={(event) => setColumnKeyId(event.target.value)}>{columnOptions}</HTMLSelect>
+                    </FormGroup>
+                    <FormGroup label="Values" labelFor="pivot-values-select" inline>
+                        <HTMLSelect id="pivot-values-select" value={valueColumnId} onChange={(event) => setValueColumnId(event.target.value)}>{columnOptions}</HTMLSelect>
+                        <HTMLSelect value={operation} onChange={(event) => setOperation(event.target.value as ColumnAggregations)}>
+                            {operations.map((operation) => <option key={operation} value={operation}>{operation}</option>)}
+                        </HTMLSelect>
+                        {operation === ColumnAggregations.Percentile ?
+                            <NumericInput value={percentile} min={0} max={100} onValueChange={(value: number) => setPercentile(isNaN(value) ? 50 : value)} />
+                        : ''}
+                    </FormGroup>
+                    {pivotSummary !== null ?
+                        <div className="summary-table">
+                            <HTMLTable condensed striped bordered>
+                                <thead>
+                                    <tr>
+                                        <th />
+                                        {pivotSummary.columnKeys.map((key) => <th key={key}>{key}</th>)}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {pivotSummary.rowKeys.map((rowKey, r) => (
+                                        <tr key={rowKey}>
+                                            <th>{rowKey}</th>
+                                            {pivotSummary.cells[r].map((result, c) => <td key={c}>{renderResult(result, table.columns[pivotIndexes[2]])}</td>)}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </HTMLTable>
+                        </div>
+                    : ''}
+                </>}
+            </div>
+            <div className={Classes.DIALOG_FOOTER}>
+                <div className={Classes.DIALOG_FOOTER_ACTIONS}>
+                    <Button intent="primary" onClick={onClose} className={Classes.BUTTON}>Close</Button>
+                </div>
+            </div>
+        </Dialog>
+    );
+};
+
+export default SummaryDialog;
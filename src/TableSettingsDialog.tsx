@@ -0,0 +1,83 @@
+import React from 'react';
+
+import { Button, Dialog, FormGroup, HTMLSelect, InputGroup, Classes } from '@blueprintjs/core';
+import { ColumnData } from './columnDataUtils';
+import { validateTableName } from './workbook';
+
+interface TableSettingsDialogProps {
+    isOpen: boolean;
+    tableName: string;
+    tableNames: string[];
+    columns: ColumnData[];
+    keyColumnId: string | null;
+    canDelete: boolean;
+    onClose: () => void;
+    onConfirm: (name: string, keyColumnId: string | null) => void;
+    onDelete: () => void;
+}
+
+/**
+ * Renames a table of the workbook, picks the key column its rows are joined by in
+ * references from other tables, or deletes it
+ */
+const TableSettingsDialog: React.FC<TableSettingsDialogProps> = ({ isOpen, tableName, tableNames, columns, keyColumnId, canDelete, onClose, onConfirm, onDelete }) => {
+    const [name, setName] = React.useState<string>(tableName);
+    const [selectedKeyColumnId, setSelectedKeyColumnId] = React.useState<string>(keyColumnId ?? '');
+
+    const handleOpening = () => {
+        setName(tableName);
+        setSelectedKeyColumnId(keyColumnId ?? '');
+    };
+
+    const nameError = validateTableName(name) ?? (name !== tableName && tableNames.includes(name) ? `There is already a table named "${name}"` : null);
+
+    return (
+        <Dialog
+            isOpen={isOpen}
+            onClose={onClose}
+            onOpening={handleOpening}
+            title="Table settings"
+            className={Classes.DIALOG}
+        >
+            <div className={Classes.DIALOG_BODY}>
+                <FormGroup
+                    label="Table name"
+                    labelFor="table-name-input"
+                    helperText={nameError ?? 'Other tables reference its columns as "#Table!Column#". Renaming the table updates those references.'}
+                    intent={nameError !== null ? 'danger' : 'none'}
+                >
+                    <InputGroup
+                        id="table-name-input"
+                        value={name}
+                        intent={nameError !== null ? 'danger' : 'none'}
+                        onChange={(event: React.ChangeEvent<HTMLInputElement>) => setName(event.target.value)}
+                    />
+                </FormGroup>
+                <FormGroup
+                    label="Key column"
+                    labelFor="key-column-select"
+                    helperText="References between two tables with a key column join the rows with the same key, eg.: a sample ID. Otherwise rows are joined by row index."
+                >
+                    <HTMLSelect id="key-column-select" value={selectedKeyColumnId} onChange={(event) => setSelectedKeyColumnId(event.target.value)}>
+                        <option value="">None, join by row index</option>
+                        {columns.map((column) => <option key={column.columnId} value={column.columnId}>{column.columnName}</option>)}
+                    </HTMLSelect>
+                </FormGroup>
+            </div>
+            <div className={Classes.DIALOG_FOOTER}>
+                <div className={Classes.DIALOG_FOOTER_ACTIONS}>
+                    <Button icon="trash" intent="danger" minimal disabled={!canDelete} onClick={onDelete}>Delete table</Button>
+                    <Button
+                        intent="primary"
+                        disabled={nameError !== null}
+                        onClick={() => onConfirm(name, selectedKeyColumnId !== '' ? selectedKeyColumnId : null)}
+                    >
+                        Save
+                    </Button>
+                </div>
+            </div>
+        </Dialog>
+    );
+};
+
+export default TableSettingsDialog;
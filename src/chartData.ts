@@ -0,0 +1,154 @@
+import { DataTable, toScopeValue } from './columnDataUtils';
+
+/**
+ * What the horizontal axis shows: the hours elapsed since the first row, read from the
+ * table's time column, or the row index
+ */
+export type ChartXAxis = 'time' | 'row';
+
+export type ChartSeriesStyle = 'line' | 'scatter';
+
+/**
+ * A column plotted on the chart
+ */
+export interface ChartSeriesOptions {
+  columnId: string;
+  style: ChartSeriesStyle;
+}
+
+/**
+ * A plotted value, with the row it comes from so the row can be selected
+ */
+export interface ChartPoint {
+  x: number;
+  y: number;
+  rowIndex: number;
+}
+
+export interface ChartSeries {
+  columnId: string;
+  name: string;
+  style: ChartSeriesStyle;
+  axisIndex: number;
+  points: ChartPoint[];
+}
+
+/**
+ * Range and ticks of an axis. Ticks are round numbers and the range is widened to the
+ * first and last tick.
+ */
+export interface ChartAxis {
+  label: string;
+  min: number;
+  max: number;
+  ticks: number[];
+}
+
+/**
+ * Everything needed to draw a chart. Every series has the index of its vertical axis.
+ */
+export interface ChartData {
+  xAxis: ChartAxis;
+  yAxes: ChartAxis[];
+  series: ChartSeries[];
+}
+
+/**
+ * Points drawn per series at most. Larger series are thinned out evenly, drawing more
+ * points than there are pixels only slows the page down.
+ */
+export const maxChartPoints = 2000;
+
+/**
+ * Computes round tick values covering a range, eg.: 0, 20, 40, 60 for 3 to 57
+ * @param min Smallest value
+ * @param max Largest value
+ * @param count Approximate number of ticks
+ */
+export function getAxisTicks(min: number, max: number, count: number = 5): { min: number, max: number, ticks: number[] } {
+  if (min == max) {
+    let margin = min == 0 ? 1 : Math.abs(min) * 0.1;
+    min -= margin;
+    max += margin;
+  }
+  let rawStep = (max - min) / count;
+  let magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)));
+  let step = [1, 2, 5, 10].map((factor) => factor * magnitude).find((candidate) => candidate >= rawStep) ?? 10 * magnitude;
+  let first = Math.floor(min / step) * step;
+  let last = Math.ceil(max / step) * step;
+  let ticks: number[] = [];
+  for (let tick = first; tick <= last + step / 2; tick += step) {
+    ticks.push(Number(tick.toPrecision(12)));
+  }
+  return { min: ticks[0], max: ticks[ticks.length - 1], ticks };
+}
+
+/**
+ * Position of a row on the horizontal axis, or null if the row has no time
+ */
+function getPointX(table: DataTable, rowIndex: number, xAxis: ChartXAxis): number | null {
+  return xAxis == 'time' ? table.getTimeVariables(rowIndex).elapsedHours : rowIndex;
+}
+
+/**
+ * Keeps evenly spaced points of a series so it has at most maxChartPoints points
+ */
+function thinOut(points: ChartPoint[]): ChartPoint[] {
+  if (points.length <= maxChartPoints) return points;
+  let stride = Math.ceil(points.length / maxChartPoints);
+  return points.filter((_, i) => i % stride == 0 || i == points.length - 1);
+}
+
+/**
+ * Builds the series, axes and ticks of a chart. Only numeric cells are plotted, cells
+ * with errors, text and blank cells are left out. Columns with the same unit share a
+ * vertical axis, columns without a unit get an axis each. Values are in the unit the
+ * column displays.
+ * @param table Compiled table
+ * @param seriesOptions Columns to plot, columns no longer in the table are skipped
+ * @param xAxis What the horizontal axis shows
+ * @param rowIndexes Rows to plot, every row if not provided
+ */
+export function buildChart(table: DataTable, seriesOptions: ChartSeriesOptions[], xAxis: ChartXAxis, rowIndexes?: number[]): ChartData {
+  let rows = rowIndexes ?? Array.from({ length: table.maxRow + 1 }, (_, r) => r);
+  let axisKeys: string[] = [];
+  let axisNames: string[][] = [];
+  let series: ChartSeries[] = [];
+  for (let options of seriesOptions) {
+    let column = table.columns.find((column) => column.columnId === options.columnId);
+    if (column === undefined) continue;
+    let unit = column.getUnit();
+    let axisKey = unit !== '' ? `unit:${unit}` : `column:${column.columnId}`;
+    let axisIndex = axisKeys.indexOf(axisKey);
+    if (axisIndex == -1) {
+      axisIndex = axisKeys.push(axisKey) - 1;
+      axisNames.push([]);
+    }
+    axisNames[axisIndex].push(unit !== '' ? `${column.columnName} (${unit})` : column.columnName);
+
+    let points: ChartPoint[] = [];
+    for (let rowIndex of rows) {
+      if (column.getError(rowIndex) !== undefined) continue;
+      let value = column.getValue(rowIndex);
+      let y = value.trim() === '' ? null : toScopeValue(value);
+      let x = getPointX(table, rowIndex, xAxis);
+      if (typeof y !== 'number' || x === null) continue;
+      points.push({ x, y, rowIndex });
+    }
+    points.sort((a, b) => a.x - b.x);
+    series.push({ columnId: column.columnId, name: column.columnName, style: options.style, axisIndex, points: thinOut(points) });
+  }
+
+  let xValues = series.flatMap((s) => s.points.map((point) => point.x));
+  let xTicks = xValues.length > 0 ? getAxisTicks(Math.min(...xValues), Math.max(...xValues)) : getAxisTicks(0, 1);
+  let yAxes = axisNames.map((names, axisIndex) => {
+    let yValues = series.filter((s) => s.axisIndex == axisIndex).flatMap((s) => s.points.map((point) => point.y));
+    let ticks = yValues.length > 0 ? getAxisTicks(Math.min(...yValues), Math.max(...yValues)) : getAxisTicks(0, 1);
+    return { label: names.join(', '), ...ticks };
+  });
+  return {
+    xAxis: { label: xAxis == 'time' ? 'Elapsed time (h)' : 'Row index', ...xTicks },
+    yAxes,
+    series,
+  };
+}
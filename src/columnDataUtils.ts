@@ -0,0 +1,1988 @@
+import * as mathjs from 'mathjs';
+import { ColumnFormat, ValueType, defaultColumnFormat, formatValue, getValueType } from './valueFormat';
+
+/**
+ * mathjs instance expressions are parsed and evaluated with. Units defined for columns are
+ * only added to this instance, so the default mathjs instance is left as it is.
+ */
+export const math = mathjs.create(mathjs.all);
+
+
+/**
+ * A column referenced by an expression. Offset is the number of rows away from the row
+ * being calculated the value is read from. Eg.: "Cell Density[-1]" references the
+ * previous row of Cell Density and "Volume[+2]" two rows ahead of Volume. References to
+ * an aggregation of a column, eg.: "Volume.Max", have the aggregation instead. References
+ * to a column of another table of the workbook, eg.: "Media!Glucose", have its table name.
+ */
+export interface ColumnReference {
+  tableName?: string;
+  columnName: string;
+  offset: number;
+  aggregation?: ColumnAggregations;
+}
+
+/**
+ * Splits a variable extracted from an expression into table name, column name and row
+ * offset, or column name and aggregation. Variables without an offset modifier reference
+ * the same row and variables without a table name reference the same table.
+ * @param variable Variable name without the '#' characters
+ */
+export function parseColumnReference(variable: string): ColumnReference {
+  let tableMatch = variable.match(/^([^!]+)!(.+)$/);
+  if (tableMatch !== null) return { tableName: tableMatch[1], ...parseColumnReference(tableMatch[2]) };
+  let aggregationMatch = variable.match(/^(.*)\.([A-Za-z]+)$/);
+  if (aggregationMatch !== null && referenceableAggregations.includes(aggregationMatch[2] as ColumnAggregations)) {
+    return { columnName: aggregationMatch[1], offset: 0, aggregation: aggregationMatch[2] as ColumnAggregations };
+  }
+  let match = variable.match(/^(.*?)\[\s*([+-]?\d+)\s*\]$/);
+  if (match === null) return { columnName: variable, offset: 0 };
+  return { columnName: match[1], offset: Number(match[2]) };
+}
+
+/**
+ * Name of a referenced column as written in expressions, with its table name when it
+ * belongs to another table, eg.: "Media!Glucose"
+ */
+export function getReferenceName(reference: ColumnReference): string {
+  return reference.tableName === undefined ? reference.columnName : `${reference.tableName}!${reference.columnName}`;
+}
+
+/**
+ * Parses a value from a time column into milliseconds since epoch. Numbers are taken as
+ * milliseconds already and strings are parsed as dates (eg.: ISO timestamps).
+ * @returns Parsed time or null if the value isn't a valid time
+ */
+export function parseTime(value: string | number | undefined): number | null {
+  if (value === undefined || value === '') return null;
+  let time = typeof value === 'number' ? value : Date.parse(value);
+  return isNaN(time) ? null : time;
+}
+
+/**
+ * Values of the time functions for the row being calculated, in hours. elapsedHours is
+ * the time since the first row and dt the time since the previous row. They are null
+ * when the time can't be determined, eg.: dt for the first row.
+ */
+export interface TimeVariables {
+  elapsedHours: number | null;
+  dt: number | null;
+}
+
+/**
+ * Names of the functions that read the table's time column
+ */
+export const timeFunctions = ['elapsed_hours', 'dt'];
+
+/**
+ * Names of the functions for conditions, blank cells and text
+ */
+export const logicFunctions = ['if', 'isblank', 'coalesce', 'concat', 'contains'];
+
+/**
+ * Functions available in expressions on top of the ones provided by mathjs
+ */
+export const customFunctions = [...timeFunctions, 'ddt', ...logicFunctions];
+
+/**
+ * Functions of mathjs that can't be used in expressions, as they evaluate or parse other
+ * expressions or change the shared mathjs instance
+ */
+export const disabledFunctions = [
+  'import', 'createUnit', 'evaluate', 'parse', 'compile', 'parser', 'chain', 'config', 'typed',
+  'simplify', 'simplifyConstant', 'simplifyCore', 'derivative', 'rationalize', 'resolve', 'reviver',
+  'replacer', 'help', 'leafCount', 'symbolicEqual',
+];
+
+/**
+ * Checks if a function can be called from expressions: the functions of mathjs, except the
+ * disabled ones, and the custom functions
+ */
+export function isAvailableFunction(name: string): boolean {
+  if (customFunctions.includes(name)) return true;
+  if (disabledFunctions.includes(name) || !/^[a-z]/.test(name)) return false;
+  return typeof (math as unknown as { [name: string]: unknown })[name] === 'function';
+}
+
+/**
+ * Compiles a parsed expression, refusing calls to functions that aren't available
+ * @throws Error if the expression calls a function that isn't available
+ */
+function compileNode(node: mathjs.MathNode): mathjs.EvalFunction {
+  node.traverse((child) => {
+    if (math.isFunctionNode(child) && math.isSymbolNode(child.fn) && disabledFunctions.includes(child.fn.name)) {
+      throw new Error(`Function "${child.fn.name}" is not available`);
+    }
+  });
+  return node.compile();
+}
+
+/**
+ * mathjs functions of the operators that can divide by zero: "/", "./" and "mod"
+ */
+const divisions = ['divide', 'dotDivide', 'mod'];
+
+/**
+ * Checks if an expression value is blank: an empty cell, text with only spaces or a row
+ * outside of the table
+ */
+function isBlankValue(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+/**
+ * Writes an expression value as text. Numbers are rounded like displayed values, so
+ * floating point noise doesn't show up in text.
+ */
+function toText(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (isBlankValue(value)) return '';
+  if (typeof value === 'number' || math.isUnit(value)) return math.format(value, { precision: 12 });
+  return String(value);
+}
+
+/**
+ * mathjs functions of the comparison operators
+ */
+const comparisons: { [operator: string]: (a: mathjs.MathType, b: mathjs.MathType) => unknown } = {
+  equal: math.equal,
+  unequal: math.unequal,
+  smaller: math.smaller,
+  larger: math.larger,
+  smallerEq: math.smallerEq,
+  largerEq: math.largerEq,
+};
+
+/**
+ * Compares two expression values. Text is compared as text, so '#Status# == "ok"' works.
+ * A plain number compared with a value that has a unit is taken in that unit, so
+ * '#Volume# < 950' compares against 950 mL when Volume is in mL. Anything else is compared
+ * by mathjs, so values in different units can be compared. Blank values are only equal to
+ * blank values and are neither smaller nor larger than anything.
+ * @param operator Name of the mathjs comparison function, eg.: "smaller"
+ */
+function compareValues(operator: string, a: unknown, b: unknown): boolean {
+  if (operator != 'equal' && operator != 'unequal' && (isBlankValue(a) || isBlankValue(b))) return false;
+  let isText = (value: unknown) => typeof value === 'string' && (value.trim() === '' || !isFinite(Number(value)));
+  if (isText(a) || isText(b)) {
+    let order = toText(a).localeCompare(toText(b));
+    return comparisons[operator](order, 0) as boolean;
+  }
+  if (math.isUnit(a) && typeof b === 'number') b = math.unit(b, a.formatUnits());
+  if (typeof a === 'number' && math.isUnit(b)) a = math.unit(a, b.formatUnits());
+  return comparisons[operator](a as mathjs.MathType, b as mathjs.MathType) as boolean;
+}
+
+/**
+ * Implementations of the logic functions given to the evaluation scope. Comparison
+ * operators are rewritten into calls to the __ functions, if calls into conditionals.
+ */
+const logicFunctionImplementations: { [name: string]: (...values: unknown[]) => unknown } = {
+  isblank: (value) => isBlankValue(value),
+  coalesce: (...values) => values.find((value) => !isBlankValue(value)) ?? '',
+  concat: (...values) => values.map(toText).join(''),
+  contains: (text, search) => toText(text).toLowerCase().includes(toText(search).toLowerCase()),
+  ...Object.fromEntries(Object.keys(comparisons).map((operator) => [`__${operator}`, (a: unknown, b: unknown) => compareValues(operator, a, b)])),
+};
+
+/**
+ * Kinds of errors a calculated cell can have
+ */
+export type CalculationErrorKind =
+  'unknown-column' | 'division-by-zero' | 'parse' | 'non-numeric' | 'unit-mismatch' | 'circular-reference' | 'evaluation';
+
+/**
+ * Short descriptions of each error kind, used to label error cells
+ */
+export const calculationErrorLabels: { [kind in CalculationErrorKind]: string } = {
+  'unknown-column': 'Unknown column',
+  'division-by-zero': 'Division by zero',
+  'parse': 'Invalid expression',
+  'non-numeric': 'Non-numeric value',
+  'unit-mismatch': 'Unit mismatch',
+  'circular-reference': 'Circular reference',
+  'evaluation': 'Calculation error',
+};
+
+export interface CalculationError {
+  ok: false;
+  kind: CalculationErrorKind;
+  message: string;
+}
+
+/**
+ * Calculated value. Numeric results are kept as numbers with full precision, they are
+ * only rounded when displayed. Results with units have the unit the value is expressed in.
+ */
+export interface CalculationValue {
+  ok: true;
+  value: string | number;
+  unit?: string;
+}
+
+/**
+ * Result of a cell calculation, either the calculated value or the reason it failed
+ */
+export type CalculationResult = CalculationValue | CalculationError;
+
+/**
+ * Value provided for a variable. Null means the referenced row is outside of the table
+ * and an error means the referenced cell couldn't be calculated.
+ */
+export type CalculationVariable = string | number | null | CalculationError;
+
+/**
+ * Checks if a calculation variable or result is an error
+ */
+export function isCalculationError(value: unknown): value is CalculationError {
+  return typeof value === 'object' && value !== null && (value as CalculationError).ok === false;
+}
+
+/**
+ * Creates a calculation error
+ */
+export function calculationError(kind: CalculationErrorKind, message: string): CalculationError {
+  return { ok: false, kind, message };
+}
+
+/**
+ * Converts a cell value into the value passed to the expression scope. Numbers and numeric
+ * strings become numbers, any other string is kept as text.
+ */
+export function toScopeValue(value: string | number): string | number {
+  if (typeof value === 'number') return value;
+  let trimmed = value.trim();
+  if (trimmed !== '' && isFinite(Number(trimmed))) return Number(trimmed);
+  return value;
+}
+
+/**
+ * Runs a callback on a unit string until it stops failing because of unknown unit names,
+ * letting the callback handle each unknown name in turn.
+ * @returns Error message if the unit can't be parsed, null otherwise
+ */
+function resolveUnit(unit: string, onUnknownUnit: (name: string) => string): string | null {
+  let candidate = unit;
+  for (let attempts = 0; attempts < 10; attempts++) {
+    try {
+      math.unit(candidate);
+      return null;
+    } catch (error) {
+      let message = error instanceof Error ? error.message : String(error);
+      let match = message.match(/^Unit "([A-Za-z_]\w*)" not found/);
+      if (match === null) return `"${unit}" is not a valid unit`;
+      candidate = onUnknownUnit(match[1]);
+    }
+  }
+  return `"${unit}" has too many unknown units`;
+}
+
+/**
+ * Checks if a column unit can be used, eg.: "mL", "g/L" or "cells/mL". Names unknown to
+ * mathjs are valid, they are defined as new base units when the unit is used. Units can't
+ * have a value, apart from the 1 of inverse units like "1/h".
+ * @returns Error message, or null if the unit is valid
+ */
+export function validateUnit(unit: string): string | null {
+  if (unit.trim() === '') return null;
+  if (/^\s*[\d.]/.test(unit) && !/^\s*1\s*\//.test(unit)) return `"${unit}" must not have a value`;
+  let candidate = unit;
+  return resolveUnit(unit, (name) => candidate = candidate.replace(new RegExp(`\\b${name}\\b`, 'g'), 'm'));
+}
+
+/**
+ * Defines the names of a column unit that mathjs doesn't know as new base units of the
+ * expression instance, so counts like "cells/mL" can be used in calculations.
+ * @returns Error message, or null if the unit can be used
+ */
+export function defineUnit(unit: string): string | null {
+  try {
+    return resolveUnit(unit, (name) => {
+      math.createUnit(name);
+      return unit;
+    });
+  } catch (error) {
+    return `"${unit}" can't be defined: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+/**
+ * Unit of a calculation result. Single units are kept as they are, so adding mL and L
+ * stays in mL, and derived units are simplified, so cells/mL times mL becomes cells.
+ */
+function getResultUnit(result: mathjs.Unit): string {
+  if (result.units.length <= 1) return result.formatUnits();
+  return result.simplify().formatUnits();
+}
+
+/**
+ * This class defines a column calculation. Each ColumnData object contains an instance of it.
+ * It contains methods to parse a mathematical expression, identifying column names as variables
+ * and evaluating it with values provided from other columns. The expression is parsed and
+ * compiled once, column references are mapped to symbols that are given values through the
+ * evaluation scope of each row.
+ */
+export class ColumnCalculation {
+    expectedVariables: Set<string>;
+    expression: string;
+    expandedExpression: string;
+    usedTimeFunctions: Set<string>;
+    handlesBlanks: boolean;
+    variableSymbols: Map<string, string>;
+    compiledExpression: mathjs.EvalFunction | null;
+    parseError: string | null;
+    hasDivision: boolean;
+    variables: { [key: string]: CalculationVariable }
+    variableUnits: { [key: string]: string }
+    time: TimeVariables
+
+    /**
+     * Initialize a ColumnCalculation object. Expected variables are extracted from expression
+     * automatically and the expression is compiled.
+     * @param expression Mathematical expression with variables wrapped in '#' characters
+     */
+    constructor(expression: string) {
+      this.expression = expression;
+      this.variables = {};
+      this.variableUnits = {};
+      this.time = { elapsedHours: null, dt: null };
+      this.expandedExpression = this.expandColumnAggregates(this.expandTimeDerivatives(this.expression));
+      this.expectedVariables = this.extractExpectedVariables(this.expandedExpression);
+      this.usedTimeFunctions = this.extractUsedTimeFunctions(this.expandedExpression);
+      this.handlesBlanks = /\b(isblank|coalesce)\s*\(/.test(this.expandedExpression.replace(/#(.*?)#/g, ''));
+      this.variableSymbols = new Map(Array.from(this.expectedVariables).map((variable, i) => [variable, `__column_${i}`]));
+      this.compiledExpression = null;
+      this.parseError = null;
+      this.hasDivision = false;
+      try {
+        let node = math.parse(this.replaceExpressionVariables());
+        this.hasDivision = node.filter((child) => math.isOperatorNode(child) && divisions.includes(child.fn)).length > 0;
+        this.compiledExpression = compileNode(this.transformLogic(node));
+      } catch (error) {
+        this.parseError = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    /**
+     * Rewrite the parsed expression so conditions behave like in a spreadsheet. Calls to
+     * "if(condition, value, otherwise)" become conditionals, so only the chosen value is
+     * evaluated and "otherwise" can be left out for a blank result. Comparison operators
+     * become calls that compare text as text and plain numbers in the unit of the value
+     * they are compared with, chained comparisons like "1 < #A# < 5" become one call for
+     * each comparison, combined with "and".
+     * @param node Parsed expression
+     * @returns Rewritten expression
+     * @throws Error if "if" is called with the wrong number of arguments
+     */
+    transformLogic(node: mathjs.MathNode): mathjs.MathNode {
+      return node.transform((child) => {
+        if (math.isFunctionNode(child) && child.fn.name == 'if') {
+          if (child.args.length < 2 || child.args.length > 3) throw new Error('Function "if" expects 2 or 3 arguments');
+          let [condition, value, otherwise] = child.args.map((arg) => this.transformLogic(arg));
+          return new math.ConditionalNode(condition, value, otherwise ?? new math.ConstantNode(''));
+        }
+        if (math.isOperatorNode(child) && comparisons[child.fn] !== undefined) {
+          let args = child.args.map((arg) => this.transformLogic(arg));
+          return new math.FunctionNode(new math.SymbolNode(`__${child.fn}`), args);
+        }
+        if (math.isRelationalNode(child)) {
+          let params = child.params.map((param) => this.transformLogic(param));
+          return child.conditionals
+            .map((operator, i): mathjs.MathNode => new math.FunctionNode(new math.SymbolNode(`__${operator}`), [params[i], params[i + 1]]))
+            .reduce((left, right) => new math.OperatorNode('and', 'and', [left, right]));
+        }
+        return child;
+      });
+    }
+
+    /**
+     * Rewrite time derivatives into expressions using the previous row and the time difference.
+     * Eg.: "ddt(#Cell Density#)" becomes "((#Cell Density# - #Cell Density[-1]#) / dt())".
+     * Only references without a row offset are supported.
+     * @param expression Mathematical expression
+     * @returns Expression without ddt calls
+     */
+    expandTimeDerivatives(expression: string): string {
+      return expression.replace(/\bddt\(\s*#([^#\[\]]*?)#\s*\)/g, (_, columnName) => {
+        return `((#${columnName}# - #${columnName}[-1]#) / dt())`;
+      });
+    }
+
+    /**
+     * Rewrite aggregating functions called on a whole column into aggregation references.
+     * Eg.: "#Volume# / max(#Volume#)" becomes "#Volume# / #Volume.Max#", so the expression
+     * is normalized against the column maximum instead of the value of the row.
+     * @param expression Mathematical expression
+     * @returns Expression with aggregation references
+     */
+    expandColumnAggregates(expression: string): string {
+      let functionNames = Object.keys(aggregateFunctions).join('|');
+      let regex = new RegExp(`\\b(${functionNames})\\(\\s*#([^#\\[\\]]*?)#\\s*\\)`, 'g');
+      return expression.replace(regex, (_, functionName: string, columnName: string) => {
+        return `#${columnName}.${aggregateFunctions[functionName]}#`;
+      });
+    }
+
+    /**
+     * Find which time functions are called in an expression.
+     * @param expression Mathematical expression
+     * @returns Names of the time functions used
+     */
+    extractUsedTimeFunctions(expression: string): Set<string> {
+      let withoutVariables = expression.replace(/#(.*?)#/g, '');
+      return new Set(timeFunctions.filter((name) => new RegExp(`\\b${name}\\s*\\(`).test(withoutVariables)));
+    }
+    
+    /**
+     * Extract calculation variables wrapped in '#' characters inside a mathematical expression.
+     * Eg.: The expression "#Cell Density# * #Volume#" will produce the following expected variable
+     * set {"Cell Density", "Volume"}. Row offsets are kept as part of the variable, so
+     * "#Cell Density[-1]# - #Cell Density#" produces {"Cell Density[-1]", "Cell Density"}.
+     * @param expression Mathematical expression
+     * @returns Unique variables identified in the expression
+     */
+    extractExpectedVariables(expression: string): Set<string> {
+      let regex = /#(.*?)#/g;
+      let variables = expression.match(regex);
+      let cleanedVariables: string[] = variables ? variables.map(match => match.replace(/#/g, '')) : [];
+      return new Set(cleanedVariables);
+    }
+    
+    /**
+     * Store provided variables for calculation. They are passed to the compiled expression
+     * through the scope on evaluation. Variables referencing rows outside of the table are null
+     * and variables referencing cells with errors hold that error.
+     * @param variables Dictionary mapping variables to values
+     * @returns This instance of ColumnCalculation
+     */
+    withVariables(variables: { [key: string]: CalculationVariable }) {
+      this.variables = variables;
+      return this;
+    }
+    
+    /**
+     * Store the units of the variables, referenced values are given their unit when the
+     * expression is evaluated. Variables without a unit are plain numbers.
+     * @param variableUnits Dictionary mapping variables to units
+     * @returns This instance of ColumnCalculation
+     */
+    withVariableUnits(variableUnits: { [key: string]: string }) {
+      this.variableUnits = variableUnits;
+      return this;
+    }
+
+    /**
+     * Store the time function values for the row being calculated.
+     * @param time Elapsed and delta time in hours
+     * @returns This instance of ColumnCalculation
+     */
+    withTime(time: TimeVariables) {
+      this.time = time;
+      return this;
+    }
+    
+    /**
+     * Replace variables wrapped in the expression with their symbols.
+     * Eg.: The expression "#Cell Density# * #Volume#" will produce the expression
+     * "__column_0 * __column_1".
+     * @returns Expression ready to be compiled
+     */
+    replaceExpressionVariables(): string {
+      let regex: RegExp = /#(.*?)#/g;
+      let replacedExpression: string = this.expandedExpression.replace(regex, (match) => {
+          return this.variableSymbols.get(match.replace(/#/g, '')) as string;
+      });
+      return replacedExpression;
+    }
+
+    /**
+     * Build the evaluation scope with the stored variables mapped to their symbols, the
+     * time functions and the logic functions. Numeric variables with a unit become mathjs
+     * units, so results carry derived units. Cells holding "true" or "false" become
+     * booleans and rows outside of the table are blank. Variables must have been checked
+     * by calculate beforehand.
+     * @returns Scope for the compiled expression
+     */
+    getScope(): { [key: string]: unknown } {
+      let scope: { [key: string]: unknown } = {
+        ...logicFunctionImplementations,
+        elapsed_hours: () => this.time.elapsedHours,
+        dt: () => this.time.dt,
+      };
+      for (let [variable, symbol] of this.variableSymbols) {
+        let variableValue = this.variables[variable] as string | number | null;
+        let value = variableValue === null ? '' : toScopeValue(variableValue);
+        let unit = this.variableUnits[variable];
+        if (value === 'true' || value === 'false') {
+          scope[symbol] = value === 'true';
+        } else {
+          scope[symbol] = typeof value === 'number' && unit ? math.unit(value, unit) : value;
+        }
+      }
+      return scope;
+    }
+
+    /**
+     * Classifies an exception thrown while evaluating the expression.
+     */
+    classifyEvaluationError(error: unknown): CalculationError {
+      let message = error instanceof Error ? error.message : String(error);
+      if (/Units do not match|expected: Unit|actual: Unit/.test(message)) {
+        return calculationError('unit-mismatch', message);
+      }
+      if (/Cannot convert .* to a number|Unexpected type of argument/.test(message)) {
+        return calculationError('non-numeric', message);
+      }
+      return calculationError('evaluation', message);
+    }
+    
+    /**
+     * Converts a result with a unit into a number in the display unit, or in the unit of
+     * the result if there is no display unit.
+     */
+    convertUnitResult(result: mathjs.Unit, displayUnit: string): CalculationResult {
+      let unit = displayUnit || getResultUnit(result);
+      let value: number;
+      try {
+        value = result.toNumber(unit);
+      } catch (error) {
+        return calculationError('unit-mismatch', `Result in ${result.formatUnits()} can't be shown in ${unit}`);
+      }
+      if (!isFinite(value)) return this.getNonFiniteError();
+      return { ok: true, value, unit };
+    }
+
+    /**
+     * Error for results that aren't finite numbers, which usually come from a division by zero
+     */
+    getNonFiniteError(): CalculationError {
+      if (this.hasDivision) return calculationError('division-by-zero', 'Division by zero');
+      return calculationError('evaluation', 'Result is not a finite number');
+    }
+
+    /**
+     * Evaluate the compiled expression with the stored variables. Unknown columns, invalid
+     * expressions, errors in referenced cells and evaluation failures are returned as errors.
+     * If any variable is blank, an empty cell or a row outside of the table, or a time
+     * function used has no value for this row, the result is blank, unless the expression
+     * handles blanks with isblank or coalesce. Results with a unit are converted to the display unit when there
+     * is one, plain numbers are taken as already being in it. Text and boolean results are
+     * stored as text, eg.: "low" or "true".
+     * @param displayUnit Unit the result is shown in, empty to keep the result's own unit
+     * @returns Result of expression evaluation
+     */
+    calculate(displayUnit: string = ''): CalculationResult {
+      if (this.parseError !== null || this.compiledExpression === null) {
+        return calculationError('parse', this.parseError ?? 'Expression could not be compiled');
+      }
+      for (let variable of this.expectedVariables) {
+        let value = this.variables[variable];
+        let columnName = getReferenceName(parseColumnReference(variable));
+        if (value === undefined) return calculationError('unknown-column', `There is no column named "${columnName}"`);
+        if (isCalculationError(value)) return calculationError(value.kind, `Column "${columnName}" has an error: ${value.message}`);
+      }
+      if (!this.handlesBlanks && Object.values(this.variables).some(isBlankValue)) return { ok: true, value: '' };
+      if (this.usedTimeFunctions.has('elapsed_hours') && this.time.elapsedHours === null) return { ok: true, value: '' };
+      if (this.usedTimeFunctions.has('dt') && this.time.dt === null) return { ok: true, value: '' };
+      let result;
+      try {
+        result = this.compiledExpression.evaluate(this.getScope());
+      } catch (error) {
+        return this.classifyEvaluationError(error);
+      }
+      if (result === undefined) return calculationError('evaluation', 'Expression has no result');
+      if (math.isUnit(result)) return this.convertUnitResult(result, displayUnit);
+      if (typeof result === 'number' && !isFinite(result)) return this.getNonFiniteError();
+      if (typeof result === 'number' && displayUnit !== '') return { ok: true, value: result, unit: displayUnit };
+      if (typeof result === 'number') return { ok: true, value: result };
+      return { ok: true, value: String(result) };
+    }
+  }
+
+
+export enum ColumnAggregations {
+  None = 'None',
+  Max = 'Max',
+  Average = 'Average',
+  Min = 'Min',
+  Sum = 'Sum',
+  Median = 'Median',
+  StdDev = 'StdDev',
+  Variance = 'Variance',
+  Count = 'Count',
+  CountNonEmpty = 'CountNonEmpty',
+  Percentile = 'Percentile',
+  First = 'First',
+  Last = 'Last',
+  Range = 'Range',
+  Custom = 'Custom',
+}
+
+/**
+ * Result of an aggregation. Value is null when the aggregation couldn't be evaluated, in
+ * which case error has the reason. Skipped errors and values are the cells with errors and
+ * the text values left out of the aggregation.
+ */
+export interface AggregationResult {
+  operation: ColumnAggregations;
+  label: string;
+  value: string | null;
+  error: string | null;
+  skippedErrors: number;
+  skippedValues: number;
+}
+
+/**
+ * Aggregations that can be referenced from expressions, eg.: "#Volume.Max#"
+ */
+export const referenceableAggregations = [
+  ColumnAggregations.Max,
+  ColumnAggregations.Average,
+  ColumnAggregations.Min,
+  ColumnAggregations.Sum,
+  ColumnAggregations.Median,
+  ColumnAggregations.StdDev,
+  ColumnAggregations.Variance,
+  ColumnAggregations.Count,
+  ColumnAggregations.CountNonEmpty,
+  ColumnAggregations.First,
+  ColumnAggregations.Last,
+  ColumnAggregations.Range,
+];
+
+/**
+ * mathjs functions that aggregate a whole column when called with a single column
+ * reference, with the aggregation they stand for
+ */
+const aggregateFunctions: { [functionName: string]: ColumnAggregations } = {
+  max: ColumnAggregations.Max,
+  min: ColumnAggregations.Min,
+  sum: ColumnAggregations.Sum,
+  mean: ColumnAggregations.Average,
+  median: ColumnAggregations.Median,
+  std: ColumnAggregations.StdDev,
+  variance: ColumnAggregations.Variance,
+  count: ColumnAggregations.Count,
+};
+
+/**
+ * Settings used by some aggregations. Percentile is between 0 and 100 and expression is
+ * the mathematical expression of Custom aggregations.
+ */
+export interface AggregationOptions {
+  percentile?: number;
+  expression?: string;
+}
+
+/**
+ * Aggregations that only take numeric values. Text values are skipped and counted.
+ */
+const numericAggregations = [
+  ColumnAggregations.Max,
+  ColumnAggregations.Average,
+  ColumnAggregations.Min,
+  ColumnAggregations.Sum,
+  ColumnAggregations.Median,
+  ColumnAggregations.StdDev,
+  ColumnAggregations.Variance,
+  ColumnAggregations.Percentile,
+  ColumnAggregations.Range,
+  ColumnAggregations.Custom,
+];
+
+/**
+ * Splits the values of a column into numbers, used by numeric aggregations, and non empty
+ * values. Empty cells are left out of both, text cells are only counted as non empty.
+ * @param rows Dictionary mapping row index to value
+ */
+export function getAggregationValues(rows: { [key: string]: string | number }): { numbers: number[], nonEmpty: (string | number)[] } {
+  let numbers: number[] = [];
+  let nonEmpty: (string | number)[] = [];
+  for (let value of Object.values(rows)) {
+    if (typeof value === 'string' && value.trim() === '') continue;
+    nonEmpty.push(value);
+    let scopeValue = toScopeValue(value);
+    if (typeof scopeValue === 'number') numbers.push(scopeValue);
+  }
+  return { numbers, nonEmpty };
+}
+
+/**
+ * Keeps only some rows of a column, used to aggregate the rows left by filters
+ * @param rows Dictionary mapping row index to value
+ * @param rowIndexes Indexes of the rows to keep
+ */
+export function pickRows(rows: { [key: string]: string | number }, rowIndexes: number[]): { [key: string]: string | number } {
+  let picked: { [key: string]: string | number } = {};
+  for (let rowIndex of rowIndexes) {
+    let value = rows[String(rowIndex)];
+    if (value !== undefined) picked[String(rowIndex)] = value;
+  }
+  return picked;
+}
+
+/**
+  * Each ColumnData object will contain a list of instances of this class. It defines which
+  * aggregation operation will be performed and how to performe it. Numeric aggregations
+  * only take numbers: empty cells are ignored and text cells are skipped, so they never
+  * count as zero. Aggregations of no numbers are empty, except Sum and Count which are 0.
+  */
+export class ColumnAggregator {
+  operation: ColumnAggregations
+  percentile: number
+  expression: string
+  compiledExpression: mathjs.EvalFunction | null
+  variableSymbols: Map<string, string>
+  parseError: string | null
+
+  /**
+    * Takes in a member of ColumnAggregations to define which aggreation will be performed.
+    * Custom expressions are compiled once, their column references evaluate to the list
+    * of numbers of the referenced column, eg.: "sum(#Volume#) / count(#Volume#)".
+    * @param operation
+    * @param options Percentile for Percentile and expression for Custom aggregations
+    */
+  constructor(operation: ColumnAggregations, options: AggregationOptions = {}) {
+    this.operation = operation
+    this.percentile = options.percentile ?? 50
+    this.expression = options.expression ?? ''
+    this.compiledExpression = null
+    this.variableSymbols = new Map()
+    this.parseError = null
+    if (operation === ColumnAggregations.Custom) {
+      let replacedExpression = this.expression.replace(/#(.*?)#/g, (_, variable: string) => {
+        let columnName = getReferenceName(parseColumnReference(variable));
+        if (!this.variableSymbols.has(columnName)) this.variableSymbols.set(columnName, `__column_${this.variableSymbols.size}`);
+        return this.variableSymbols.get(columnName) as string;
+      });
+      try {
+        this.compiledExpression = compileNode(math.parse(replacedExpression));
+      } catch (error) {
+        this.parseError = error instanceof Error ? error.message : String(error);
+      }
+    }
+  }
+
+  /**
+    * Name shown next to the result, eg.: "Percentile(90)". Custom aggregations show their
+    * expression.
+    */
+  getLabel(): string {
+    if (this.operation === ColumnAggregations.Percentile) return `Percentile(${this.percentile})`;
+    if (this.operation === ColumnAggregations.Custom) return this.expression;
+    return this.operation;
+  }
+
+  /**
+    * Options needed to recreate this aggregation
+    */
+  getOptions(): AggregationOptions {
+    if (this.operation === ColumnAggregations.Percentile) return { percentile: this.percentile };
+    if (this.operation === ColumnAggregations.Custom) return { expression: this.expression };
+    return {};
+  }
+
+  /**
+    * Perform the assigned aggregation on the provided rows. Cells with errors are not part
+    * of rows.
+    * @param rows Dictionary mapping row index to value
+    * @param getColumnRows Retrieves the rows of other columns by name, used by Custom
+    * aggregations
+    * @returns Result of aggregation, empty if aggregation is None
+    * @throws Error if a Custom aggregation can't be evaluated
+    */
+  aggregate(
+    rows: { [key: string]: string | number },
+    getColumnRows: (columnName: string) => { [key: string]: string | number } | undefined = () => undefined,
+  ): string {
+    let { numbers, nonEmpty } = getAggregationValues(rows);
+    let result: string | number = '';
+    switch(this.operation) {
+      case ColumnAggregations.Max:
+        if (numbers.length > 0) result = math.max(numbers);
+        break;
+      case ColumnAggregations.Min:
+        if (numbers.length > 0) result = math.min(numbers);
+        break;
+      case ColumnAggregations.Sum:
+        result = numbers.reduce((sum, value) => sum + value, 0);
+        break;
+      case ColumnAggregations.Average:
+        if (numbers.length > 0) result = math.mean(numbers);
+        break;
+      case ColumnAggregations.Median:
+        if (numbers.length > 0) result = math.median(numbers);
+        break;
+      case ColumnAggregations.StdDev:
+        if (numbers.length > 1) result = Number(math.std(numbers));
+        break;
+      case ColumnAggregations.Variance:
+        if (numbers.length > 1) result = Number(math.variance(numbers));
+        break;
+      case ColumnAggregations.Count:
+        result = numbers.length;
+        break;
+      case ColumnAggregations.CountNonEmpty:
+        result = nonEmpty.length;
+        break;
+      case ColumnAggregations.Percentile:
+        if (numbers.length > 0) result = Number(math.quantileSeq(numbers, Math.min(Math.max(this.percentile, 0), 100) / 100));
+        break;
+      case ColumnAggregations.First:
+        if (nonEmpty.length > 0) result = nonEmpty[0];
+        break;
+      case ColumnAggregations.Last:
+        if (nonEmpty.length > 0) result = nonEmpty[nonEmpty.length - 1];
+        break;
+      case ColumnAggregations.Range:
+        if (numbers.length > 0) result = math.max(numbers) - math.min(numbers);
+        break;
+      case ColumnAggregations.Custom:
+        result = this.evaluateExpression(rows, getColumnRows);
+        break;
+    }
+    return String(result);
+  }
+
+  /**
+    * Evaluates a Custom aggregation. The aggregated column and the referenced columns are
+    * given to the expression as lists of numbers.
+    */
+  evaluateExpression(
+    rows: { [key: string]: string | number },
+    getColumnRows: (columnName: string) => { [key: string]: string | number } | undefined,
+  ): string {
+    if (this.compiledExpression === null) throw new Error(this.parseError ?? 'Expression could not be parsed');
+    let scope: { [key: string]: number[] } = {};
+    for (let [columnName, symbol] of this.variableSymbols) {
+      let columnRows = getColumnRows(columnName);
+      if (columnRows === undefined) throw new Error(`There is no column named "${columnName}"`);
+      scope[symbol] = getAggregationValues(columnRows).numbers;
+    }
+    let result = this.compiledExpression.evaluate(scope);
+    if (typeof result === 'number' && !isFinite(result)) throw new Error('Result is not a finite number');
+    return typeof result === 'number' ? String(result) : math.format(result);
+  }
+
+  /**
+    * Counts the text values a numeric aggregation leaves out of the provided rows
+    */
+  countSkippedValues(rows: { [key: string]: string | number }): number {
+    if (!numericAggregations.includes(this.operation)) return 0;
+    let { numbers, nonEmpty } = getAggregationValues(rows);
+    return nonEmpty.length - numbers.length;
+  }
+
+  /**
+    * Perform the assigned aggregation on the provided rows and describe the result. Cells
+    * with errors are not part of rows, the number of them skipped is kept next to the
+    * result along with the number of text values left out.
+    * @param rows Dictionary mapping row index to value
+    * @param skippedErrors Number of error cells left out of the aggregation
+    * @param getColumnRows Retrieves the rows of other columns by name
+    */
+  getResult(
+    rows: { [key: string]: string | number },
+    skippedErrors: number = 0,
+    getColumnRows?: (columnName: string) => { [key: string]: string | number } | undefined,
+  ): AggregationResult {
+    let result: AggregationResult = {
+      operation: this.operation,
+      label: this.getLabel(),
+      value: null,
+      error: null,
+      skippedErrors,
+      skippedValues: this.countSkippedValues(rows),
+    };
+    try {
+      result.value = this.aggregate(rows, getColumnRows);
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+    return result;
+  }
+}
+  
+
+/**
+ * Calculates the rows of a calculated column on demand. Provided by the table the column
+ * belongs to, which knows the other columns and the number of rows.
+ */
+export interface RowCalculator {
+  calculateRow: (rowIndex: number) => void;
+  getRowCount: () => number;
+}
+
+/**
+  * This class manages the data that goes into a column. It stores row data, column 
+  * calculation and aggregationsIt can calculate row data, column aggregations and 
+  * retrieve it when the cells are rendered.
+  */
+export class ColumnData {
+    columnName: string;
+    columnType: "time" | "data" | "calculated" | '';
+    columnId: string;
+    calculation: ColumnCalculation;
+    rows: { [key: string]: string | number }
+    errors: { [key: string]: CalculationError }
+    aggregations: ColumnAggregator[]
+    unit: string
+    resultUnit: string
+    format: ColumnFormat
+    calculator: RowCalculator | null
+    
+    /**
+     * Initialize a ColumnData with a name, type and Id. Rows are initialized as 
+     * an empty dict. Calculation is initialized with a placeholder, there are no
+     * aggregations or unit and values are displayed with the default format.
+     * @param columnName 
+     * @param columnType
+     * @param columnId 
+     */
+    constructor(columnName: string, columnType: "time" | "data" | "calculated" | '', columnId: string) {
+      this.columnName = columnName;
+      this.columnType = columnType;
+      this.columnId = columnId;
+      this.calculation = new ColumnCalculation('');
+      this.rows = {};
+      this.errors = {};
+      this.aggregations = []
+      this.unit = '';
+      this.resultUnit = '';
+      this.format = defaultColumnFormat;
+      this.calculator = null;
+    }
+    
+    /**
+     * Updates ColumnCalculation to be used
+     * @param calculation 
+     * @returns Instance with updated ColumnCalculation
+     */
+    withCalculation(calculation: ColumnCalculation) {
+      this.calculation = calculation;
+      return this;
+    }
+
+    /**
+     * Updates column aggregations to be used. None aggregations are left out.
+     * @param aggregations 
+     * @returns Instance with updated aggregations
+     */
+    withAggregations(aggregations: ColumnAggregator[]) {
+      this.aggregations = aggregations.filter((aggregation) => aggregation.operation !== ColumnAggregations.None);
+      return this;
+    }
+    
+    /**
+     * Updates the column unit. Data columns hold values in this unit, calculated columns
+     * convert their results to it. An empty unit means unitless data, or calculated
+     * results shown in the unit they are derived with. Unknown unit names are defined.
+     * @param unit Unit, eg.: "mL" or "cells/mL"
+     * @returns Instance with updated unit
+     * @throws Error if the unit can't be used, units should be checked with validateUnit first
+     */
+    withUnit(unit: string) {
+      let error = unit.trim() === '' ? null : defineUnit(unit.trim());
+      if (error !== null) throw new Error(error);
+      this.unit = unit.trim();
+      return this;
+    }
+
+    /**
+     * Updates how the column values are displayed. Stored values are not changed.
+     * @param format 
+     * @returns Instance with updated format
+     */
+    withFormat(format: ColumnFormat) {
+      this.format = format;
+      return this;
+    }
+
+    /**
+     * Retrieves the unit the values of the column are in. Calculated columns without a
+     * display unit have the unit derived by their calculation, which is known once a row
+     * has been calculated, so the first row is calculated if needed.
+     */
+    getUnit(): string {
+      if (this.columnType == 'calculated' && this.unit === '' && this.resultUnit === '') this.ensureRow(0);
+      return this.columnType == 'calculated' && this.unit === '' ? this.resultUnit : this.unit;
+    }
+    
+    /**
+     * Assign rows to this column. Only needed for non calcculated columns. Clears errors
+     * and the derived unit.
+     */
+    setRows(rows: { [key: string]: string | number }) {
+      this.rows = rows;
+      this.errors = {};
+      this.resultUnit = '';
+    }
+    
+    /**
+     * Checks if a row holds a value or an error. Rows of calculated columns are only
+     * calculated when they are first read.
+     */
+    isRowCalculated(rowIndex: number): boolean {
+      return this.rows[String(rowIndex)] !== undefined || this.errors[String(rowIndex)] !== undefined;
+    }
+
+    /**
+     * Calculates a row if the column has a calculator and the row hasn't been calculated
+     * since it was last invalidated. Calculated rows are kept, so each row is only
+     * calculated once.
+     */
+    ensureRow(rowIndex: number) {
+      if (this.calculator === null || this.isRowCalculated(rowIndex)) return;
+      if (rowIndex < 0 || rowIndex >= this.calculator.getRowCount()) return;
+      this.calculator.calculateRow(rowIndex);
+    }
+
+    /**
+     * Retrieves every row, calculating the rows that haven't been calculated yet. Used
+     * by operations on the whole column, like aggregations.
+     */
+    getRows(): { [key: string]: string | number } {
+      if (this.calculator !== null) {
+        let rowCount = this.calculator.getRowCount();
+        for (let r = 0; r < rowCount; r++) this.ensureRow(r);
+      }
+      return this.rows;
+    }
+
+    /**
+     * Discards the value or error of a row, so it is calculated again when read
+     */
+    invalidateRow(rowIndex: number) {
+      delete this.rows[String(rowIndex)];
+      delete this.errors[String(rowIndex)];
+    }
+
+    /**
+     * Calculates the value for the provided row with the variables and time values passed
+     * and stores it, converted to the column unit. Failed calculations are stored as
+     * errors and leave the row empty.
+     */
+    fillCalculatedRow(rowIndex: number, variables: { [key: string]: CalculationVariable }, time: TimeVariables) {
+      let result = this.calculation.withVariables(variables).withTime(time).calculate(this.unit);
+      if (result.ok) {
+        if (result.unit !== undefined) this.resultUnit = result.unit;
+        this.rows[String(rowIndex)] = result.value;
+        delete this.errors[String(rowIndex)];
+      } else {
+        this.fillErrorRow(rowIndex, result);
+      }
+    }
+    
+    /**
+     * Stores an error in the provided row instead of a calculated value
+     */
+    fillErrorRow(rowIndex: number, error: CalculationError) {
+      delete this.rows[String(rowIndex)];
+      this.errors[String(rowIndex)] = error;
+    }
+
+    /**
+     * Stores consecutive rows calculated elsewhere, eg.: by the compile worker. Rows
+     * calculated here in the meantime are kept, they hold the same values.
+     * @param startRow Index of the first row
+     * @param values Row values, null for rows with an error
+     * @param errors Errors by row index
+     * @param resultUnit Unit derived by the calculation
+     */
+    storeCalculatedRows(startRow: number, values: (string | number | null)[], errors: { [key: string]: CalculationError }, resultUnit: string) {
+      if (this.resultUnit === '') this.resultUnit = resultUnit;
+      values.forEach((value, i) => {
+        let rowIndex = startRow + i;
+        if (this.isRowCalculated(rowIndex)) return;
+        let error = errors[String(rowIndex)];
+        if (error !== undefined) {
+          this.errors[String(rowIndex)] = error;
+        } else if (value !== null) {
+          this.rows[String(rowIndex)] = value;
+        }
+      });
+    }
+
+    /**
+     * Retrieves the error of a row, if any, calculating the row if needed
+     */
+    getError(rowIndex: number): CalculationError | undefined {
+      this.ensureRow(rowIndex);
+      return this.errors[String(rowIndex)];
+    }
+    
+    /**
+     * Retrieves a row value, calculating it if needed
+     */
+    getValue(rowIndex: number): string {
+      const rowIndexStr = String(rowIndex)
+      this.ensureRow(rowIndex);
+      if (this.rows[rowIndexStr] !== undefined) {
+        return String(this.rows[rowIndexStr]);
+      }
+      return '';
+    }
+
+    /**
+     * Determines the type of a stored row value. Values of time columns are datetimes,
+     * even when stored as timestamps.
+     */
+    getValueType(rowIndex: number): ValueType {
+      this.ensureRow(rowIndex);
+      let value = this.rows[String(rowIndex)];
+      if (this.columnType == 'time' && parseTime(value) !== null) return 'datetime';
+      return getValueType(value);
+    }
+
+    /**
+     * Retrieves a row value formatted for display with the column format, calculating
+     * the row if needed
+     */
+    getFormattedValue(rowIndex: number): string {
+      this.ensureRow(rowIndex);
+      return formatValue(this.rows[String(rowIndex)], this.format, this.getValueType(rowIndex));
+    }
+
+    /**
+     * Formats an aggregation result of the column for display with the column format.
+     * Counts are left as they are, they aren't values of the column.
+     * @returns Formatted value, null if the aggregation couldn't be evaluated
+     */
+    getFormattedAggregation(result: AggregationResult): string | null {
+      if (result.value === null) return null;
+      if (result.operation == ColumnAggregations.Count || result.operation == ColumnAggregations.CountNonEmpty) return result.value;
+      return formatValue(result.value, this.format);
+    }
+
+    /**
+     * Calculate an aggregation of the column, which doesn't need to be one of its own
+     * @param aggregation Aggregation to perform
+     * @param getColumnRows Retrieves the rows of other columns, used by Custom aggregations
+     * @param rowIndexes Rows to aggregate, every row if not provided
+     */
+    getAggregationResult(
+      aggregation: ColumnAggregator,
+      getColumnRows?: (columnName: string) => { [key: string]: string | number } | undefined,
+      rowIndexes?: number[],
+    ): AggregationResult {
+      rowIndexes?.forEach((rowIndex) => this.ensureRow(rowIndex));
+      let rows = rowIndexes === undefined ? this.getRows() : pickRows(this.rows, rowIndexes);
+      let skippedErrors = rowIndexes === undefined
+        ? Object.keys(this.errors).length
+        : rowIndexes.filter((rowIndex) => this.errors[String(rowIndex)] !== undefined).length;
+      return aggregation.getResult(rows, skippedErrors, getColumnRows);
+    }
+}
+
+/**
+ * The other tables of a workbook, which expressions reference as "#Table!Column#". Rows
+ * of a referenced table are joined to the rows of the referencing table, by key column or
+ * by row index.
+ */
+export interface LinkedTables {
+  getTable: (tableName: string) => DataTable | undefined;
+  getLinkedRow: (table: DataTable, linkedTable: DataTable, rowIndex: number) => number | null;
+  getKeyColumnIndex: (table: DataTable) => number | undefined;
+}
+  
+/**
+ * This class manages all table data. It assigns rows to ColumnData objects and 
+ * compile the full table data by running the column calculations with its expected 
+ * variables and column aggregations. Calculated cells are evaluated lazily: a cell is
+ * only calculated when it is first read, eg.: when it scrolls into view, and kept until a
+ * change invalidates it. After the first compilation the table can be changed through
+ * updateCell, addColumn, insertColumn, replaceColumn, removeColumn and moveColumn, which
+ * only invalidate the columns and rows affected by the change. Tables of a workbook are
+ * given the other tables as linkedTables, so their expressions can reference them.
+ */
+export class DataTable {
+    columns: ColumnData[]
+    data: { [key: string]: { [key: string]: string | number } }
+    columnNameToIndexMapping: { [key: string]: number }
+    maxRow: number
+    isThereColumnAggregations: boolean
+    aggregationRowCount: number
+    circularColumns: Map<ColumnData, string>
+    referencedAggregates: Map<string, string>
+    pendingColumns: ColumnData[]
+    pendingCursor: { columnPosition: number, rowIndex: number }
+    linkedTables: LinkedTables | null
+    linkedCircularColumns: Map<ColumnData, string>
+
+    /**
+     * Takes in data to be distributed to ColumnData objects. The first key is column
+     * id and the second is row index.
+     * @param data 
+     */
+    constructor(data: { [key: string]: { [key: string]: string | number } }) {
+      this.data = data;
+      this.columns = [];
+      this.columnNameToIndexMapping = {};
+      this.maxRow = 0;
+      this.isThereColumnAggregations = false
+      this.aggregationRowCount = 0
+      this.circularColumns = new Map();
+      this.referencedAggregates = new Map();
+      this.pendingColumns = [];
+      this.pendingCursor = { columnPosition: 0, rowIndex: 0 };
+      this.linkedTables = null;
+      this.linkedCircularColumns = new Map();
+    }
+
+    /**
+     * Updates the ColumnNameToIndex mapping. This mapping allows to quickly lookup
+     * the column's index using its name.
+     */
+    updateColumnNameToIndexMapping() {
+      this.columnNameToIndexMapping = {}
+      for (let i = 0; i < this.columns.length; i++) {
+        let column = this.columns[i];
+        this.columnNameToIndexMapping[column.columnName] = i
+      }
+    }
+    
+    /**
+     * Add new ColumnData onjects to the DataTable. Each ColumnData is assigned the rows
+     * from data with the same key as its columnId.
+     * @param columns 
+     */
+    addColumns(columns: ColumnData[]) {
+      this.columns = this.columns.concat(columns)
+      this.updateColumnNameToIndexMapping();
+    }
+
+    /**
+     * Creates a column id that isn't used by any column of the table yet, based on the
+     * provided name.
+     */
+    getUniqueColumnId(name: string): string {
+      let baseId = name.replace(/ /g, '_');
+      let usedIds = new Set(this.columns.map((column) => column.columnId));
+      let columnId = baseId;
+      for (let i = 2; usedIds.has(columnId) || this.data[columnId] !== undefined; i++) {
+        columnId = `${baseId}_${i}`;
+      }
+      return columnId;
+    }
+
+    /**
+     * Creates a column name that isn't used by any column of the table yet, based on the
+     * provided name.
+     */
+    getUniqueColumnName(name: string): string {
+      let columnName = name;
+      for (let i = 2; this.columnNameToIndexMapping[columnName] !== undefined; i++) {
+        columnName = `${name} ${i}`;
+      }
+      return columnName;
+    }
+    
+    /**
+     * Given a row index and a ColumnData object, this method collects variables for the
+     * ColumnData's ColumnCalculation. The expected variables are column names, this method
+     * get the row value of index rowIndex from columns with the same names as the expected
+     * variables and return a dict with the mappings. Variables with a row offset get the
+     * value of row rowIndex + offset instead, or null when that row is outside of the table.
+     * Referenced cells with errors provide the error itself. Variables referencing another
+     * table read its joined row.
+     */
+    getCalculationVariables(rowIndex: number, column: ColumnData): { [key: string]: CalculationVariable } {
+      let expectedVariables = column.calculation.expectedVariables;
+      let variables: { [key: string]: CalculationVariable } = {};
+      for (let variable of expectedVariables) {
+        let reference = parseColumnReference(variable);
+        if (reference.tableName !== undefined) {
+          let value = this.getLinkedVariable(rowIndex, reference);
+          if (value !== undefined) variables[variable] = value;
+          continue;
+        }
+        let { columnName, offset, aggregation } = reference;
+        let columnIndex = this.columnNameToIndexMapping[columnName]
+        if (columnIndex !== undefined && aggregation !== undefined) {
+          variables[variable] = this.getReferencedAggregate(columnIndex, aggregation);
+        } else if (columnIndex !== undefined) {
+          let referencedRow = rowIndex + offset;
+          let referencedColumn = this.columns[columnIndex];
+          if (referencedRow < 0 || referencedRow > this.maxRow) {
+            variables[variable] = null;
+          } else {
+            variables[variable] = referencedColumn.getError(referencedRow) ?? referencedColumn.getValue(referencedRow);
+          }
+        }
+      }
+      return variables;
+    }
+
+    /**
+     * Finds the table and index of a column referenced in another table of the workbook
+     * @returns The column, or undefined if the table or the column don't exist
+     */
+    getLinkedColumn(reference: ColumnReference): { table: DataTable, columnIndex: number } | undefined {
+      let table = reference.tableName === undefined ? undefined : this.linkedTables?.getTable(reference.tableName);
+      let columnIndex = table?.columnNameToIndexMapping[reference.columnName];
+      return table === undefined || columnIndex === undefined ? undefined : { table, columnIndex };
+    }
+
+    /**
+     * Reads the value of a reference to another table for a row. The row is joined to a
+     * row of the other table, which the offset is applied to. Rows without a match in the
+     * other table, eg.: a key that isn't there, read null. Aggregation references read the
+     * aggregate of the whole column.
+     * @returns Value or error of the referenced cell, undefined if the column doesn't exist
+     */
+    getLinkedVariable(rowIndex: number, reference: ColumnReference): CalculationVariable | undefined {
+      let linkedColumn = this.getLinkedColumn(reference);
+      if (linkedColumn === undefined || this.linkedTables === null) return undefined;
+      let { table, columnIndex } = linkedColumn;
+      if (reference.aggregation !== undefined) return table.getReferencedAggregate(columnIndex, reference.aggregation);
+      let linkedRow = this.linkedTables.getLinkedRow(this, table, rowIndex);
+      if (linkedRow === null) return null;
+      let referencedRow = linkedRow + reference.offset;
+      if (referencedRow < 0 || referencedRow > table.maxRow) return null;
+      return table.columns[columnIndex].getError(referencedRow) ?? table.columns[columnIndex].getValue(referencedRow);
+    }
+    
+    /**
+     * Collects the units of the variables of a column's calculation. References to a
+     * column have its unit, aggregation references the unit of the aggregated values:
+     * none for counts and the squared unit for variances. References of a column to its
+     * own previous rows have the unit derived by the rows already calculated.
+     */
+    getVariableUnits(column: ColumnData): { [key: string]: string } {
+      let variableUnits: { [key: string]: string } = {};
+      for (let variable of column.calculation.expectedVariables) {
+        let reference = parseColumnReference(variable);
+        let { columnName, aggregation } = reference;
+        let linkedColumn = this.getLinkedColumn(reference);
+        let columnIndex = this.columnNameToIndexMapping[columnName];
+        let unit = '';
+        if (reference.tableName !== undefined) {
+          unit = linkedColumn === undefined ? '' : linkedColumn.table.columns[linkedColumn.columnIndex].getUnit();
+        } else if (this.columns[columnIndex] === column) {
+          unit = column.unit !== '' ? column.unit : column.resultUnit;
+        } else if (columnIndex !== undefined) {
+          unit = this.columns[columnIndex].getUnit();
+        }
+        if (unit === '' || aggregation == ColumnAggregations.Count || aggregation == ColumnAggregations.CountNonEmpty) continue;
+        variableUnits[variable] = aggregation == ColumnAggregations.Variance ? (math.pow(math.unit(unit), 2) as mathjs.Unit).formatUnits() : unit;
+      }
+      return variableUnits;
+    }
+
+    /**
+     * Finds the column holding the table's time axis, the first column with type 'time'.
+     * @returns Index of the time column or undefined if there isn't one
+     */
+    getTimeColumnIndex(): number | undefined {
+      let columnIndex = this.columns.findIndex((column) => column.columnType == 'time');
+      return columnIndex == -1 ? undefined : columnIndex;
+    }
+
+    /**
+     * Computes the time function values for a row from the time column. Times are
+     * differences between parsed timestamps, so irregular sampling intervals are respected.
+     */
+    getTimeVariables(rowIndex: number): TimeVariables {
+      let timeColumnIndex = this.getTimeColumnIndex();
+      if (timeColumnIndex === undefined) return { elapsedHours: null, dt: null };
+      let timeColumn = this.columns[timeColumnIndex];
+      let current = parseTime(timeColumn.rows[String(rowIndex)]);
+      let first = parseTime(timeColumn.rows['0']);
+      let previous = rowIndex > 0 ? parseTime(timeColumn.rows[String(rowIndex - 1)]) : null;
+      const millisecondsPerHour = 3600000;
+      return {
+        elapsedHours: current !== null && first !== null ? (current - first) / millisecondsPerHour : null,
+        dt: current !== null && previous !== null ? (current - previous) / millisecondsPerHour : null,
+      };
+    }
+
+    /**
+     * Builds the dependency graph of the table. Each calculated column index is mapped to
+     * the indexes of the calculated columns referenced by its expression. Non calculated
+     * columns have no dependencies and are left out of the graph.
+     */
+    getColumnDependencies(): Map<number, number[]> {
+      let dependencies = new Map<number, number[]>();
+      for (let i = 0; i < this.columns.length; i++) {
+        let column = this.columns[i];
+        if (column.columnType != 'calculated') continue;
+        dependencies.set(i, this.getReferencedColumns(column).filter((columnIndex) => this.columns[columnIndex].columnType == 'calculated'));
+      }
+      return dependencies;
+    }
+
+    /**
+     * Finds the indexes of the columns referenced by a column's calculation. References
+     * to names that don't exist in the table are ignored, and so are references of a
+     * column to its own previous rows, eg.: a running total, as they don't depend on the
+     * row being calculated.
+     */
+    getReferencedColumns(column: ColumnData): number[] {
+      let columnIndex = this.columns.indexOf(column);
+      let references = this.getColumnReferences(column)
+        .filter((reference) => reference.columnIndex != columnIndex || reference.offset >= 0 || reference.wholeColumn);
+      return Array.from(new Set(references.map((reference) => reference.columnIndex)));
+    }
+
+    /**
+     * Checks if a column's calculation references previous rows of the column itself,
+     * eg.: #Total[-1]#. Rows of these columns are calculated in order.
+     */
+    referencesOwnPreviousRows(column: ColumnData): boolean {
+      let columnIndex = this.columns.indexOf(column);
+      return this.getColumnReferences(column)
+        .some((reference) => reference.columnIndex == columnIndex && reference.offset < 0 && !reference.wholeColumn);
+    }
+
+    /**
+     * Lists every reference of a column's calculation as the referenced column index and
+     * row offset. A column referenced with several offsets appears once per offset. Time
+     * functions add references to the time column, elapsed_hours references its first
+     * row (fixedRow) from every row. Aggregation references depend on every row of the
+     * referenced column (wholeColumn). References to other tables are left out, the
+     * workbook keeps track of them, but rows joined by key depend on the key column.
+     */
+    getColumnReferences(column: ColumnData): { columnIndex: number, offset: number, fixedRow?: number, wholeColumn?: boolean }[] {
+      if (column.columnType != 'calculated') return [];
+      let references: { columnIndex: number, offset: number, fixedRow?: number, wholeColumn?: boolean }[] = [];
+      let isLinked = false;
+      for (let variable of column.calculation.expectedVariables) {
+        let { tableName, columnName, offset, aggregation } = parseColumnReference(variable);
+        isLinked = isLinked || tableName !== undefined;
+        let columnIndex = tableName === undefined ? this.columnNameToIndexMapping[columnName] : undefined;
+        if (columnIndex !== undefined) references.push({ columnIndex, offset, ...(aggregation !== undefined ? { wholeColumn: true } : {}) });
+      }
+      let keyColumnIndex = isLinked ? this.linkedTables?.getKeyColumnIndex(this) : undefined;
+      if (keyColumnIndex !== undefined) references.push({ columnIndex: keyColumnIndex, offset: 0 });
+      let timeColumnIndex = this.getTimeColumnIndex();
+      let usedTimeFunctions = column.calculation.usedTimeFunctions;
+      if (timeColumnIndex !== undefined && usedTimeFunctions.size > 0) {
+        references.push({ columnIndex: timeColumnIndex, offset: 0 });
+        if (usedTimeFunctions.has('dt')) references.push({ columnIndex: timeColumnIndex, offset: -1 });
+        if (usedTimeFunctions.has('elapsed_hours')) references.push({ columnIndex: timeColumnIndex, offset: 0, fixedRow: 0 });
+      }
+      return references;
+    }
+
+    /**
+     * Finds the indexes of the calculated columns whose expression references the
+     * provided column name of this table.
+     */
+    getDependentColumns(columnName: string): number[] {
+      let dependentColumns: number[] = [];
+      for (let i = 0; i < this.columns.length; i++) {
+        let column = this.columns[i];
+        let references = Array.from(column.calculation.expectedVariables).map(parseColumnReference);
+        if (column.columnType == 'calculated' && references.some((reference) => reference.tableName === undefined && reference.columnName == columnName)) {
+          dependentColumns.push(i);
+        }
+      }
+      return dependentColumns;
+    }
+
+    /**
+     * Sorts the calculated columns topologically so each column is evaluated after every
+     * column it references. Columns taking part in a circular reference can't be ordered,
+     * they are returned in the circular mapping together with the names of the columns in
+     * their cycle. Columns that only depend on a cycle are still ordered.
+     */
+    getCompilationOrder(): { order: number[], circular: Map<number, string[]> } {
+      let dependencies = this.getColumnDependencies();
+      let order = this.sortColumnDependencies(dependencies);
+      let circular = new Map<number, string[]>();
+      let unordered = Array.from(dependencies.keys()).filter((columnIndex) => !order.includes(columnIndex));
+      if (unordered.length == 0) return { order, circular };
+
+      let reachable = new Map<number, Set<number>>();
+      for (let columnIndex of unordered) {
+        let visited = new Set<number>();
+        let pending = [...(dependencies.get(columnIndex) ?? [])];
+        while (pending.length > 0) {
+          let current = pending.pop() as number;
+          if (visited.has(current)) continue;
+          visited.add(current);
+          pending.push(...(dependencies.get(current) ?? []));
+        }
+        reachable.set(columnIndex, visited);
+      }
+      for (let columnIndex of unordered) {
+        if (!reachable.get(columnIndex)?.has(columnIndex)) continue;
+        let cycle = unordered.filter((other) => reachable.get(columnIndex)?.has(other) && reachable.get(other)?.has(columnIndex));
+        circular.set(columnIndex, cycle.map((other) => this.columns[other].columnName));
+      }
+
+      let acyclicDependencies = new Map<number, number[]>();
+      for (let [columnIndex, columnDependencies] of dependencies) {
+        if (circular.has(columnIndex)) continue;
+        acyclicDependencies.set(columnIndex, columnDependencies.filter((dependency) => !circular.has(dependency)));
+      }
+      return { order: this.sortColumnDependencies(acyclicDependencies), circular };
+    }
+
+    /**
+     * Kahn's algorithm over a dependency graph. Columns that can't be reached because of a
+     * circular reference are left out of the returned order.
+     */
+    sortColumnDependencies(dependencies: Map<number, number[]>): number[] {
+      let pendingDependencies = new Map<number, number>();
+      let dependents = new Map<number, number[]>();
+      for (let [columnIndex, columnDependencies] of dependencies) {
+        pendingDependencies.set(columnIndex, columnDependencies.length);
+        for (let dependency of columnDependencies) {
+          dependents.set(dependency, (dependents.get(dependency) ?? []).concat([columnIndex]));
+        }
+      }
+      let ready = Array.from(dependencies.keys()).filter((columnIndex) => pendingDependencies.get(columnIndex) == 0);
+      let order: number[] = [];
+      while (ready.length > 0) {
+        let columnIndex = ready.shift() as number;
+        order.push(columnIndex);
+        for (let dependent of dependents.get(columnIndex) ?? []) {
+          let pending = (pendingDependencies.get(dependent) as number) - 1;
+          pendingDependencies.set(dependent, pending);
+          if (pending == 0) ready.push(dependent);
+        }
+      }
+      return order;
+    }
+    
+    /**
+     * Prepares data to render the table. Meta-data such as maximum number of rows to be
+     * rendered and if there are aggregations is generated here. Rows are assigned to 
+     * ColumnData objects and columns with calculation are given a calculator that
+     * evaluates their rows on demand with the expected variables, so compiling doesn't
+     * evaluate anything. Columns in a circular reference are filled with an error
+     * message instead.
+     */
+    compile() {
+      for (let i=0; i < this.columns.length; i++) {
+        this.bindColumnRows(i);
+      }
+      this.updateMaxRow();
+      this.updateAggregationsFlag();
+      this.circularColumns = new Map();
+      let changedRows = new Map<number, Set<number> | 'all'>();
+      for (let i=0; i < this.columns.length; i++) {
+        changedRows.set(i, 'all');
+      }
+      this.recalculate(changedRows);
+    }
+
+    /**
+     * Assigns the rows from data to a non calculated column using its id. Calculated
+     * columns start with empty rows and are given a calculator, so their rows are filled
+     * as they are read.
+     */
+    bindColumnRows(columnIndex: number) {
+      let column = this.columns[columnIndex];
+      let rows = this.data[column.columnId];
+      column.setRows(column.columnType != 'calculated' && rows !== undefined ? rows : {});
+      column.calculator = column.columnType != 'calculated' ? null : {
+        calculateRow: (rowIndex) => this.calculateRow(column, rowIndex),
+        getRowCount: () => this.maxRow + 1,
+      };
+    }
+
+    /**
+     * Calculates a row of a calculated column. The referenced cells are read first, which
+     * calculates them if needed, so cells are always calculated after the cells they
+     * depend on. Columns referencing their own previous rows calculate the rows before
+     * first, in order, so reading the last row doesn't recurse through the whole column.
+     * Columns in a circular reference, within the table or across tables of the workbook,
+     * get an error instead.
+     */
+    calculateRow(column: ColumnData, rowIndex: number) {
+      let circularMessage = this.circularColumns.get(column) ?? this.linkedCircularColumns.get(column);
+      if (circularMessage !== undefined) {
+        column.fillErrorRow(rowIndex, calculationError('circular-reference', circularMessage));
+        return;
+      }
+      if (this.referencesOwnPreviousRows(column)) {
+        let firstRow = rowIndex;
+        while (firstRow > 0 && !column.isRowCalculated(firstRow - 1)) firstRow--;
+        for (let r = firstRow; r < rowIndex; r++) column.ensureRow(r);
+      }
+      let variables = this.getCalculationVariables(rowIndex, column);
+      column.calculation.withVariableUnits(this.getVariableUnits(column));
+      column.fillCalculatedRow(rowIndex, variables, this.getTimeVariables(rowIndex));
+    }
+
+    /**
+     * Recomputes the maximum row index from data. Returns the previous value.
+     */
+    updateMaxRow(): number {
+      let previousMaxRow = this.maxRow;
+      this.maxRow = 0;
+      for (let i=0; i < this.columns.length; i++) {
+        let rows = this.data[this.columns[i].columnId]
+        if (rows !== undefined && this.columns[i].columnType != 'calculated') {
+          let newMaxRow = Object.keys(rows).reduce((max, current) => Number(current) > max ? Number(current) : max, 0)
+          this.maxRow = newMaxRow > this.maxRow ? newMaxRow : this.maxRow
+        }
+      }
+      return previousMaxRow;
+    }
+
+    /**
+     * Checks if any column has an aggregation, so the aggregation rows are rendered. There
+     * is one aggregation row for each aggregation of the column with the most of them.
+     */
+    updateAggregationsFlag() {
+      this.aggregationRowCount = Math.max(0, ...this.columns.map((column) => column.aggregations.length));
+      this.isThereColumnAggregations = this.aggregationRowCount > 0;
+    }
+
+    /**
+     * Invalidates only what is affected by a change. The provided mapping tells which
+     * rows of which columns changed ('all' meaning every row). Calculated columns are
+     * visited in dependency order and only the changed rows of the columns they reference
+     * are invalidated, which in turn marks those rows as changed for their dependents.
+     * References with a row offset shift the changed rows, a change in row r of a column
+     * referenced with offset -1 invalidates row r + 1. A change in a fixed row referenced
+     * by every row, or in a column whose aggregation is referenced, invalidates the whole
+     * column. Columns referencing their own previous rows invalidate every row after the
+     * first changed one. Columns entering or leaving a circular reference are fully
+     * refreshed.
+     * Invalidated rows are calculated again when they are read, or in the background by
+     * calculatePendingRows.
+     */
+    recalculate(changedRows: Map<number, Set<number> | 'all'>) {
+      let { order, circular } = this.getCompilationOrder();
+      let circularColumns = new Map<ColumnData, string>();
+      for (let [columnIndex, cycle] of circular) {
+        let column = this.columns[columnIndex];
+        let message = `Circular reference between columns ${cycle.map((name) => `"${name}"`).join(', ')}`;
+        circularColumns.set(column, message);
+        if (this.circularColumns.get(column) === message && !changedRows.has(columnIndex)) continue;
+        changedRows.set(columnIndex, 'all');
+      }
+      for (let columnIndex of order) {
+        if (this.circularColumns.has(this.columns[columnIndex])) changedRows.set(columnIndex, 'all');
+      }
+      this.circularColumns = circularColumns;
+      this.referencedAggregates.clear();
+
+      let invalidatedColumns: ColumnData[] = [];
+      for (let columnIndex of circular.keys()) {
+        if (changedRows.get(columnIndex) !== 'all') continue;
+        this.columns[columnIndex].setRows({});
+        invalidatedColumns.push(this.columns[columnIndex]);
+      }
+      for (let columnIndex of order) {
+        let column = this.columns[columnIndex];
+        let rowsToCalculate = changedRows.get(columnIndex);
+        for (let { columnIndex: referencedIndex, offset, fixedRow, wholeColumn } of this.getColumnReferences(column)) {
+          let referencedRows = changedRows.get(referencedIndex);
+          if (referencedRows === undefined || rowsToCalculate === 'all') continue;
+          if (referencedRows === 'all' || wholeColumn || (fixedRow !== undefined && referencedRows.has(fixedRow))) {
+            rowsToCalculate = 'all';
+            continue;
+          }
+          let shiftedRows = Array.from(referencedRows).map((r) => r - offset).filter((r) => r >= 0);
+          rowsToCalculate = new Set([...(rowsToCalculate ?? []), ...shiftedRows]);
+        }
+        if (rowsToCalculate === undefined) continue;
+        if (rowsToCalculate !== 'all' && rowsToCalculate.size > 0 && this.referencesOwnPreviousRows(column)) {
+          let firstRow = Array.from(rowsToCalculate).reduce((min, r) => Math.min(min, r));
+          rowsToCalculate = new Set(Array.from({ length: this.maxRow - firstRow + 1 }, (_, i) => firstRow + i));
+        }
+        if (rowsToCalculate === 'all') {
+          column.setRows({});
+        } else {
+          rowsToCalculate.forEach((r) => column.invalidateRow(r));
+        }
+        invalidatedColumns.push(column);
+        changedRows.set(columnIndex, rowsToCalculate);
+      }
+      this.schedulePendingColumns(invalidatedColumns);
+    }
+
+    /**
+     * Adds columns with invalidated rows to the columns calculated in the background.
+     * The background calculation starts over, rows calculated since are skipped quickly.
+     */
+    schedulePendingColumns(columns: ColumnData[]) {
+      let pendingColumns = this.pendingColumns.slice(this.pendingCursor.columnPosition);
+      this.pendingColumns = [...pendingColumns.filter((column) => !columns.includes(column)), ...columns]
+        .filter((column) => this.columns.includes(column) && column.columnType == 'calculated');
+      this.pendingCursor = { columnPosition: 0, rowIndex: 0 };
+    }
+
+    /**
+     * Calculates rows that haven't been read yet, a few at a time, so whole columns are
+     * ready before their aggregations are needed without blocking the interface. Columns
+     * are visited in the order they were invalidated, which follows their dependencies.
+     * @param limit Maximum number of rows to calculate
+     * @returns Whether every row of every calculated column is calculated
+     */
+    calculatePendingRows(limit: number): boolean {
+      let calculated = 0;
+      while (this.pendingCursor.columnPosition < this.pendingColumns.length) {
+        let column = this.pendingColumns[this.pendingCursor.columnPosition];
+        while (this.pendingCursor.rowIndex <= this.maxRow) {
+          if (!column.isRowCalculated(this.pendingCursor.rowIndex)) {
+            if (calculated >= limit) return false;
+            column.ensureRow(this.pendingCursor.rowIndex);
+            calculated++;
+          }
+          this.pendingCursor.rowIndex++;
+        }
+        this.pendingCursor = { columnPosition: this.pendingCursor.columnPosition + 1, rowIndex: 0 };
+      }
+      return true;
+    }
+
+    /**
+     * Fraction of the rows of invalidated columns calculated so far, from 0 to 1
+     */
+    getCalculationProgress(): number {
+      if (this.pendingColumns.length == 0) return 1;
+      let rowCount = this.maxRow + 1;
+      let done = this.pendingCursor.columnPosition * rowCount + this.pendingCursor.rowIndex;
+      return Math.min(done / (this.pendingColumns.length * rowCount), 1);
+    }
+
+    /**
+     * Checks if every row of a column is calculated, so its aggregations are cheap
+     */
+    isColumnCalculated(columnIndex: number): boolean {
+      let position = this.pendingColumns.indexOf(this.columns[columnIndex]);
+      return position == -1 || position < this.pendingCursor.columnPosition;
+    }
+
+    /**
+     * Calculates some rows of every calculated column ahead of time, eg.: the rows around
+     * the ones being displayed, so scrolling doesn't have to calculate them.
+     */
+    calculateRows(rowIndexes: number[]) {
+      for (let column of this.columns) {
+        if (column.columnType != 'calculated') continue;
+        rowIndexes.forEach((rowIndex) => column.ensureRow(rowIndex));
+      }
+    }
+
+    /**
+     * Rows added past the previous maximum row have to be calculated for every calculated
+     * column, even the ones that don't reference the column that grew. When rows are
+     * removed, calculated columns are fully recalculated to drop them.
+     */
+    markNewRows(changedRows: Map<number, Set<number> | 'all'>, previousMaxRow: number) {
+      if (this.maxRow < previousMaxRow) {
+        this.columns.forEach((column, i) => column.columnType == 'calculated' && changedRows.set(i, 'all'));
+      }
+      if (this.maxRow <= previousMaxRow) return;
+      for (let i=0; i < this.columns.length; i++) {
+        let changed = changedRows.get(i);
+        if (this.columns[i].columnType != 'calculated' || changed === 'all') continue;
+        let rows = new Set(changed ?? []);
+        for (let r=previousMaxRow + 1; r <= this.maxRow; r++) rows.add(r);
+        changedRows.set(i, rows);
+      }
+    }
+
+    /**
+     * Changes the value of a single cell of a non calculated column and recalculates
+     * the affected rows of dependent columns.
+     */
+    updateCell(rowIndex: number, columnIndex: number, value: string | number) {
+      let column = this.columns[columnIndex];
+      if (column.columnType == 'calculated') return;
+      let columnKey = column.columnId;
+      if (this.data[columnKey] === undefined) this.data[columnKey] = {};
+      this.data[columnKey][String(rowIndex)] = value;
+      this.cellChanged(rowIndex, columnIndex);
+    }
+
+    /**
+     * Removes a single cell of a non calculated column from the data, as if it had never
+     * been set, and recalculates the affected rows of dependent columns. Trailing rows left
+     * without values are dropped.
+     */
+    clearCell(rowIndex: number, columnIndex: number) {
+      let column = this.columns[columnIndex];
+      if (column.columnType == 'calculated') return;
+      delete this.data[column.columnId]?.[String(rowIndex)];
+      this.cellChanged(rowIndex, columnIndex);
+    }
+
+    /**
+     * Rebinds the data of a column after one of its cells changed and recalculates the
+     * affected rows, along with the rows added or removed by the change.
+     */
+    cellChanged(rowIndex: number, columnIndex: number) {
+      this.bindColumnRows(columnIndex);
+      let changedRows = new Map<number, Set<number> | 'all'>([[columnIndex, new Set([rowIndex])]]);
+      this.markNewRows(changedRows, this.updateMaxRow());
+      this.recalculate(changedRows);
+    }
+
+    /**
+     * Appends a column to the table and calculates it, along with any column that was
+     * already referencing its name.
+     */
+    addColumn(column: ColumnData) {
+      this.insertColumn(this.columns.length, column);
+    }
+
+    /**
+     * Inserts a column at the provided index and calculates it, along with any column that
+     * was already referencing its name. Rows can be provided to be stored as the column's
+     * data, otherwise the column is assigned the data with its id, if any.
+     */
+    insertColumn(columnIndex: number, column: ColumnData, rows?: { [key: string]: string | number }) {
+      if (rows !== undefined) this.data[column.columnId] = rows;
+      this.columns = [...this.columns.slice(0, columnIndex), column, ...this.columns.slice(columnIndex)];
+      this.updateColumnNameToIndexMapping();
+      this.bindColumnRows(columnIndex);
+      this.updateAggregationsFlag();
+      let changedRows = new Map<number, Set<number> | 'all'>([[columnIndex, 'all']]);
+      this.markNewRows(changedRows, this.updateMaxRow());
+      this.recalculate(changedRows);
+    }
+
+    /**
+     * Replaces the column at the provided index. The new column is assigned the data with
+     * its id, or the rows provided. Columns referencing either the old or the new name are
+     * recalculated.
+     */
+    replaceColumn(columnIndex: number, column: ColumnData, rows?: { [key: string]: string | number }) {
+      if (rows !== undefined) this.data[column.columnId] = rows;
+      this.replaceColumns(new Map([[columnIndex, column]]));
+    }
+
+    /**
+     * Replaces several columns at once and recalculates the table a single time, used when
+     * a rename rewrites the expressions referencing the renamed column. Columns referencing
+     * the old or the new names are recalculated.
+     * @param replacements New columns by the index of the column they replace
+     */
+    replaceColumns(replacements: Map<number, ColumnData>) {
+      let oldColumnNames = Array.from(replacements.keys()).map((columnIndex) => this.columns[columnIndex].columnName);
+      this.columns = [...this.columns];
+      for (let [columnIndex, column] of replacements) {
+        this.columns[columnIndex] = column;
+      }
+      this.updateColumnNameToIndexMapping();
+      let changedRows = new Map<number, Set<number> | 'all'>();
+      for (let columnIndex of replacements.keys()) {
+        this.bindColumnRows(columnIndex);
+        changedRows.set(columnIndex, 'all');
+      }
+      this.updateAggregationsFlag();
+      for (let oldColumnName of oldColumnNames) {
+        for (let dependent of this.getDependentColumns(oldColumnName)) {
+          changedRows.set(dependent, 'all');
+        }
+      }
+      this.markNewRows(changedRows, this.updateMaxRow());
+      this.recalculate(changedRows);
+    }
+
+    /**
+     * Removes the column at the provided index along with its data. Columns that
+     * referenced the removed column are recalculated. Indexes without a column, eg.: -1
+     * for a column that wasn't found, are ignored.
+     * @returns The removed data, so the column can be inserted back
+     */
+    removeColumn(columnIndex: number): { [key: string]: string | number } | undefined {
+      let removedColumn = this.columns[columnIndex];
+      if (removedColumn === undefined) return undefined;
+      let removedRows = this.data[removedColumn.columnId];
+      this.columns = this.columns.filter((_, i) => i !== columnIndex);
+      delete this.data[removedColumn.columnId];
+      this.updateColumnNameToIndexMapping();
+      this.updateAggregationsFlag();
+      let changedRows = new Map<number, Set<number> | 'all'>();
+      for (let dependent of this.getDependentColumns(removedColumn.columnName)) {
+        changedRows.set(dependent, 'all');
+      }
+      this.markNewRows(changedRows, this.updateMaxRow());
+      this.recalculate(changedRows);
+      return removedRows;
+    }
+
+    /**
+     * Moves columns to another position. Values don't depend on column positions, so
+     * nothing is recalculated.
+     * @param oldIndex Index of the first column to move
+     * @param newIndex Index the first column will have after moving
+     * @param length Number of consecutive columns to move
+     */
+    moveColumn(oldIndex: number, newIndex: number, length: number = 1) {
+      let moved = this.columns.slice(oldIndex, oldIndex + length);
+      let remaining = this.columns.filter((_, i) => i < oldIndex || i >= oldIndex + length);
+      this.columns = [...remaining.slice(0, newIndex), ...moved, ...remaining.slice(newIndex)];
+      this.updateColumnNameToIndexMapping();
+    }
+    
+    /**
+     * Retrieves the error of a cell, if any
+     */
+    getError(rowIndex: number, columnIndex: number): CalculationError | undefined {
+      if (rowIndex > this.maxRow) return undefined;
+      return this.columns[columnIndex].getError(rowIndex);
+    }
+
+    /**
+     * Retrieves the rows of a column by name, used by Custom aggregations
+     */
+    getColumnRows(columnName: string): { [key: string]: string | number } | undefined {
+      let columnIndex = this.columnNameToIndexMapping[columnName];
+      return columnIndex === undefined ? undefined : this.columns[columnIndex].getRows();
+    }
+
+    /**
+     * Calculates the aggregations of a column
+     * @param columnIndex Index of the column
+     * @param rowIndexes Rows to aggregate, eg.: the rows left by filters. Every row if not
+     * provided.
+     * @returns One result per aggregation of the column, in order
+     */
+    getAggregationResults(columnIndex: number, rowIndexes?: number[]): AggregationResult[] {
+      return this.columns[columnIndex].aggregations.map((aggregation) => this.aggregate(columnIndex, aggregation, rowIndexes));
+    }
+
+    /**
+     * Calculates any aggregation of a column over some of its rows, used by grouped
+     * summaries where every group aggregates its own rows
+     * @param columnIndex Index of the column
+     * @param aggregation Aggregation to perform
+     * @param rowIndexes Rows to aggregate, every row if not provided. Custom aggregations
+     * only see these rows of the columns they reference as well.
+     */
+    aggregate(columnIndex: number, aggregation: ColumnAggregator, rowIndexes?: number[]): AggregationResult {
+      return this.columns[columnIndex].getAggregationResult(aggregation, (columnName) => {
+        let rows = this.getColumnRows(columnName);
+        return rows === undefined || rowIndexes === undefined ? rows : pickRows(rows, rowIndexes);
+      }, rowIndexes);
+    }
+
+    /**
+     * Calculates an aggregation of a column that may not be one of its aggregations, used
+     * by aggregation references like "#Volume.Max#". Every row of the column is calculated
+     * first. Results are cached until the table changes.
+     * @returns Result, empty if there are no values to aggregate
+     */
+    getReferencedAggregate(columnIndex: number, aggregation: ColumnAggregations): string {
+      let key = `${this.columns[columnIndex].columnId}.${aggregation}`;
+      let cached = this.referencedAggregates.get(key);
+      if (cached !== undefined) return cached;
+      let value = new ColumnAggregator(aggregation).aggregate(this.columns[columnIndex].getRows());
+      this.referencedAggregates.set(key, value);
+      return value;
+    }
+
+    /**
+     * Retrives a cell value
+     */
+    getValue(rowIndex: number, columnIndex: number): string {
+      return this.columns[columnIndex].getValue(rowIndex);
+    }
+
+    /**
+     * Determines how many rows should be rendered in the table.
+     */
+    getRowsToRender() {
+      return this.maxRow + 1 + this.aggregationRowCount;
+    }
+}
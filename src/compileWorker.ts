@@ -0,0 +1,50 @@
+import { CompiledRows, CompileWorkerRequest, CompileWorkerResponse, compileRows } from './tableCompiler';
+
+/**
+ * Compile being calculated. Batches are calculated one per task, so a new request
+ * received in between replaces it.
+ */
+let currentCompile: { compileId: number, batches: Iterator<CompiledRows> } | null = null;
+let isBatchScheduled = false;
+
+function respond(response: CompileWorkerResponse) {
+  self.postMessage(response);
+}
+
+function scheduleNextBatch() {
+  if (isBatchScheduled) return;
+  isBatchScheduled = true;
+  setTimeout(calculateNextBatch, 0);
+}
+
+/**
+ * Calculates the next batch of the current compile and schedules the one after it
+ */
+function calculateNextBatch() {
+  isBatchScheduled = false;
+  if (currentCompile === null) return;
+  let { compileId, batches } = currentCompile;
+  try {
+    let batch = batches.next();
+    if (batch.done) {
+      currentCompile = null;
+      respond({ type: 'done', compileId });
+      return;
+    }
+    respond(batch.value);
+    scheduleNextBatch();
+  } catch (error) {
+    currentCompile = null;
+    respond({ type: 'failed', compileId, message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<CompileWorkerRequest>) => {
+  let request = event.data;
+  if (request.type == 'cancel') {
+    if (currentCompile?.compileId === request.compileId) currentCompile = null;
+    return;
+  }
+  currentCompile = { compileId: request.compileId, batches: compileRows(request) };
+  scheduleNextBatch();
+});
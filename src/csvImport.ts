@@ -0,0 +1,233 @@
+import { ColumnData, parseColumnReference, parseTime } from './columnDataUtils';
+import { validateColumnName } from './expressionSyntax';
+
+/**
+ * A row that couldn't be imported. Line is 1-based, as shown by text editors.
+ */
+export interface ImportIssue {
+  line: number;
+  message: string;
+}
+
+/**
+ * A column that was imported with a different name than the one in the file, with the
+ * reason it couldn't keep it
+ */
+export interface RenamedColumn {
+  name: string;
+  newName: string;
+  reason: string;
+}
+
+/**
+ * Summary of how a file was read, shown to the user after importing
+ */
+export interface ImportReport {
+  delimiter: string;
+  hasHeader: boolean;
+  importedRows: number;
+  skippedRows: ImportIssue[];
+  renamedColumns: RenamedColumn[];
+}
+
+export interface ImportResult {
+  data: { [key: string]: { [key: string]: string | number } };
+  columns: ColumnData[];
+  report: ImportReport;
+}
+
+const candidateDelimiters = [',', '\t', ';', '|'];
+
+/**
+ * Parses delimited text into rows of fields. Fields can be quoted with '"', quoted fields
+ * may contain delimiters, line breaks and escaped quotes ('""'). Each row keeps the line
+ * it started on.
+ * @param text File contents
+ * @param delimiter Field delimiter
+ */
+export function parseDelimited(text: string, delimiter: string): { line: number, fields: string[] }[] {
+  let rows: { line: number, fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+  for (let i = 0; i < text.length; i++) {
+    let character = text[i];
+    if (inQuotes) {
+      if (character == '"' && text[i + 1] == '"') {
+        field += '"';
+        i++;
+      } else if (character == '"') {
+        inQuotes = false;
+      } else {
+        if (character == '\n') line++;
+        field += character;
+      }
+    } else if (character == '"' && field.trim() == '') {
+      inQuotes = true;
+      field = '';
+    } else if (character == delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (character == '\n' || character == '\r') {
+      if (character == '\r' && text[i + 1] == '\n') i++;
+      fields.push(field);
+      rows.push({ line: rowLine, fields });
+      fields = [];
+      field = '';
+      line++;
+      rowLine = line;
+    } else {
+      field += character;
+    }
+  }
+  if (field !== '' || fields.length > 0) {
+    fields.push(field);
+    rows.push({ line: rowLine, fields });
+  }
+  return rows.filter((row) => row.fields.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Guesses the delimiter by parsing the first lines with each candidate. The delimiter that
+ * splits the lines into the same number of fields, with the most fields, is chosen.
+ * Defaults to ',' when no candidate splits the lines.
+ * @param text File contents
+ */
+export function sniffDelimiter(text: string): string {
+  let sample = text.split(/\r?\n/).slice(0, 20).join('\n');
+  let bestDelimiter = ',';
+  let bestScore = 0;
+  for (let delimiter of candidateDelimiters) {
+    let counts = parseDelimited(sample, delimiter).map((row) => row.fields.length);
+    if (counts.length == 0 || counts[0] < 2) continue;
+    let consistentRows = counts.filter((count) => count == counts[0]).length;
+    let score = consistentRows / counts.length * counts[0];
+    if (score > bestScore) {
+      bestScore = score;
+      bestDelimiter = delimiter;
+    }
+  }
+  return bestDelimiter;
+}
+
+/**
+ * Checks if a field is a number
+ */
+export function isNumericValue(value: string): boolean {
+  return value.trim() !== '' && isFinite(Number(value.trim()));
+}
+
+/**
+ * Checks if a field looks like a date or timestamp, eg.: ISO timestamps, "2021-01-02 10:00"
+ * or "02/01/2021". Plain numbers are not considered dates.
+ */
+export function isDateValue(value: string): boolean {
+  let trimmed = value.trim();
+  let looksLikeDate = /^\d{4}-\d{1,2}-\d{1,2}([T ]\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/.test(trimmed)
+    || /^\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}( \d{1,2}:\d{2}(:\d{2})?)?$/.test(trimmed);
+  return looksLikeDate && parseTime(trimmed) !== null;
+}
+
+/**
+ * The first row is a header when none of its fields are numbers or dates, while at least
+ * one column below it has a number or date.
+ * @param rows Parsed rows
+ */
+export function detectHeader(rows: string[][]): boolean {
+  if (rows.length < 2) return rows.length == 1 && rows[0].every((value) => !isNumericValue(value) && !isDateValue(value));
+  let [first, ...rest] = rows;
+  if (first.some((value) => value.trim() === '' || isNumericValue(value) || isDateValue(value))) return false;
+  return rest.slice(0, 20).some((row) => row.some((value) => isNumericValue(value) || isDateValue(value)));
+}
+
+/**
+ * Infers a column type from its values. Columns where every non empty value is a date
+ * are 'time' columns, anything else is a 'data' column.
+ * @param values Column values
+ */
+export function inferColumnType(values: string[]): 'time' | 'data' {
+  let nonEmpty = values.filter((value) => value.trim() !== '');
+  if (nonEmpty.length > 0 && nonEmpty.every(isDateValue)) return 'time';
+  return 'data';
+}
+
+/**
+ * Turns a header into a name that can be referenced from expressions: "#" and "!" become
+ * spaces and a trailing aggregation or row offset is kept apart from the name, eg.:
+ * "Volume.Max" becomes "Volume Max" and "Volume[1]" becomes "Volume (1)".
+ * @param name Header name
+ */
+export function sanitizeColumnName(name: string): string {
+  let sanitized = name.replace(/\s*[#!]+\s*/g, ' ').trim();
+  let reference = parseColumnReference(sanitized);
+  if (reference.aggregation !== undefined) return `${reference.columnName} ${reference.aggregation}`.trim();
+  return sanitized.replace(/\s*\[\s*([+-]?\d+)\s*\]$/, ' ($1)').trim();
+}
+
+/**
+ * Reads a CSV or TSV file into DataTable data, keyed by column id, with a ColumnData for
+ * each column. The delimiter is sniffed, the header is detected (columns are named
+ * "Column 1", "Column 2"... otherwise) and column types are inferred. Numeric columns are
+ * stored as numbers. Headers that aren't valid column names are sanitized and repeated
+ * names get a number, eg.: the second "Volume" becomes "Volume 2", so every column can be
+ * referenced. Renamed columns are listed in the report, along with the rows skipped for
+ * having a different number of fields than the header.
+ * @param text File contents
+ */
+export function importDelimitedText(text: string): ImportResult {
+  let contents = text.charCodeAt(0) == 0xfeff ? text.slice(1) : text;
+  let delimiter = sniffDelimiter(contents);
+  let parsedRows = parseDelimited(contents, delimiter);
+  let hasHeader = detectHeader(parsedRows.map((row) => row.fields));
+  let columnCount = parsedRows.length > 0 ? parsedRows[0].fields.length : 0;
+  let names = hasHeader
+    ? parsedRows[0].fields.map((value) => value.trim())
+    : Array.from({ length: columnCount }, (_, i) => `Column ${i + 1}`);
+
+  let skippedRows: ImportIssue[] = [];
+  let validRows: string[][] = [];
+  for (let row of parsedRows.slice(hasHeader ? 1 : 0)) {
+    if (row.fields.length != columnCount) {
+      skippedRows.push({ line: row.line, message: `Expected ${columnCount} fields but found ${row.fields.length}` });
+      continue;
+    }
+    validRows.push(row.fields);
+  }
+
+  let data: { [key: string]: { [key: string]: string | number } } = {};
+  let columns: ColumnData[] = [];
+  let usedIds = new Set<string>();
+  let usedNames = new Set<string>();
+  let renamedColumns: RenamedColumn[] = [];
+  for (let c = 0; c < columnCount; c++) {
+    let values = validRows.map((row) => row[c]);
+    let columnType = inferColumnType(values);
+    let isNumeric = columnType == 'data' && values.every((value) => value.trim() === '' || isNumericValue(value));
+    let rows: { [key: string]: string | number } = {};
+    values.forEach((value, r) => {
+      rows[String(r)] = isNumeric && value.trim() !== '' ? Number(value) : value;
+    });
+
+    let name = names[c];
+    let sanitizedName = sanitizeColumnName(name);
+    if (sanitizedName === '') sanitizedName = `Column ${c + 1}`;
+    let columnName = sanitizedName;
+    for (let i = 2; usedNames.has(columnName); i++) columnName = `${sanitizedName} ${i}`;
+    let reason = validateColumnName(name, [...usedNames]);
+    usedNames.add(columnName);
+    if (reason !== null) renamedColumns.push({ name, newName: columnName, reason });
+    let columnId = columnName.replace(/ /g, '_');
+    while (usedIds.has(columnId)) columnId = `${columnId}_${c}`;
+    usedIds.add(columnId);
+    columns.push(new ColumnData(columnName, columnType, columnId));
+    data[columnId] = rows;
+  }
+
+  return {
+    data,
+    columns,
+    report: { delimiter, hasHeader, importedRows: validRows.length, skippedRows, renamedColumns },
+  };
+}
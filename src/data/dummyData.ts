@@ -1,5 +1,7 @@
+import { ColumnData } from '../columnDataUtils';
+
 export const dummyTableData: { [key: string]: { [key: string]: string | number } } = {
-  '0': {
+  'time_col': {
     '0': '2021-01-01T20:39:26.023Z',
     '1': '2021-01-02T20:39:26.023Z',
     '2': '2021-01-03T20:39:26.023Z',
@@ -9,7 +11,7 @@ export const dummyTableData: { [key: string]: { [key: string]: string | number }
     '6': '2021-01-07T20:39:26.023Z',
     '7': '2021-01-08T20:39:26.023Z',
   },
-  '1': {
+  'var_col_1': {
     '0': 100,
     '1': 120,
     '2': 140,
@@ -19,7 +21,7 @@ export const dummyTableData: { [key: string]: { [key: string]: string | number }
     '6': 182,
     '7': 194,
   },
-  '2': {
+  'var_col_2': {
     '0': 990,
     '1': 980,
     '2': 970,
@@ -30,3 +32,12 @@ export const dummyTableData: { [key: string]: { [key: string]: string | number }
     '7': 949,
   }
 };
+
+/**
+ * Initial columns for dummy data. Their ids match the keys of the dummy data.
+ */
+export const dummyColumns: ColumnData[] = [
+  new ColumnData('Time', 'time', 'time_col'),
+  new ColumnData('Cell Density', 'data', 'var_col_1').withUnit('cells/mL'),
+  new ColumnData('Volume', 'data', 'var_col_2').withUnit('L'),
+]
@@ -0,0 +1,117 @@
+/**
+ * Entry point of the calculated column engine for use outside of the page. Nothing
+ * exported here depends on React or the DOM, so scripts running in Node can apply the
+ * same calculated column definitions the page uses, eg.: the columns of a saved project:
+ *
+ *   let { data, columns } = importDelimitedText(readFileSync('run-42.csv', 'utf8'));
+ *   let table = createTable(columns, data);
+ *   table = loadProject(parseProject(readFileSync('culture.project.json', 'utf8')), table);
+ *   let yields = readColumn(table, 'Yield');
+ *
+ * Tables can also be built column by column:
+ *
+ *   let table = createTable([
+ *     { name: 'Volume', type: 'data', id: 'volume', unit: 'L', aggregations: [] },
+ *     { name: 'Mass', type: 'calculated', id: 'mass', expression: '#Volume# * 1.2 kg/L', aggregations: [] },
+ *   ], { volume: { 0: 2, 1: 1.5 } });
+ *   table.addColumn(new ColumnData('Doubled', 'calculated', 'doubled').withCalculation(new ColumnCalculation('#Mass# * 2')));
+ *   readRows(table); // [{ Volume: 2, Mass: 2.4, Doubled: 4.8 }, ...]
+ *
+ * Values are in the unit of their column, table.columns[1].getUnit() is "kg". Calculated
+ * cells are evaluated lazily, when they are first read.
+ */
+import { CalculationError, ColumnData, DataTable } from './columnDataUtils';
+import { ColumnDefinition, deserializeColumn } from './projectFile';
+
+export {
+  ColumnAggregations,
+  ColumnAggregator,
+  ColumnCalculation,
+  ColumnData,
+  DataTable,
+  calculationErrorLabels,
+  getReferenceName,
+  isCalculationError,
+  parseColumnReference,
+  validateUnit,
+} from './columnDataUtils';
+export type {
+  AggregationOptions,
+  AggregationResult,
+  CalculationError,
+  CalculationErrorKind,
+  CalculationVariable,
+  ColumnReference,
+  LinkedTables,
+} from './columnDataUtils';
+export { Workbook, validateTableName } from './workbook';
+export type { WorkbookTable } from './workbook';
+export { ProjectFileError, createProject, getUnmatchedColumns, loadProject, parseProject, serializeColumn, deserializeColumn } from './projectFile';
+export type { ColumnDefinition, LinkedTableDefinition, ProjectFile } from './projectFile';
+export { importDelimitedText } from './csvImport';
+export type { ImportResult, ImportReport, RenamedColumn } from './csvImport';
+export { defaultExportOptions, exportTable } from './tableExport';
+export type { ExportOptions } from './tableExport';
+export { validateExpression } from './expressionSyntax';
+export type { ExpressionDiagnostic } from './expressionSyntax';
+
+/**
+ * A cell as read by readRows and readColumn: numbers and text as stored or calculated,
+ * null for blank cells and the error of cells that couldn't be calculated
+ */
+export type CellValue = string | number | null | CalculationError;
+
+/**
+ * Creates a table and compiles it
+ * @param columns Columns, as ColumnData or as the column definitions of project files
+ * @param data Rows of the non calculated columns, keyed by column id and row index
+ */
+export function createTable(
+  columns: (ColumnData | ColumnDefinition)[],
+  data: { [key: string]: { [key: string]: string | number } } = {},
+): DataTable {
+  let table = new DataTable(data);
+  table.addColumns(columns.map((column) => column instanceof ColumnData ? column : deserializeColumn(column)));
+  table.compile();
+  return table;
+}
+
+/**
+ * Reads a cell of a compiled table, calculating it if needed
+ */
+function readCell(column: ColumnData, rowIndex: number): CellValue {
+  column.ensureRow(rowIndex);
+  let error = column.getError(rowIndex);
+  if (error !== undefined) return error;
+  let value = column.rows[String(rowIndex)];
+  return value === undefined || value === '' ? null : value;
+}
+
+/**
+ * Reads every value of a column, calculating the rows not calculated yet
+ * @param table Compiled table
+ * @param columnName Name of the column
+ * @returns One value per row, in row order
+ * @throws Error if the table has no column with that name
+ */
+export function readColumn(table: DataTable, columnName: string): CellValue[] {
+  let columnIndex = table.columnNameToIndexMapping[columnName];
+  if (columnIndex === undefined) throw new Error(`There is no column named "${columnName}"`);
+  let column = table.columns[columnIndex];
+  return Array.from({ length: table.maxRow + 1 }, (_, r) => readCell(column, r));
+}
+
+/**
+ * Reads every row of a table, calculating the rows not calculated yet
+ * @param table Compiled table
+ * @returns One object per row, keyed by column name
+ */
+export function readRows(table: DataTable): { [columnName: string]: CellValue }[] {
+  let rows: { [columnName: string]: CellValue }[] = [];
+  for (let r = 0; r <= table.maxRow; r++) {
+    let row: { [columnName: string]: CellValue } = {};
+    table.columns.forEach((column) => row[column.columnName] = readCell(column, r));
+    rows.push(row);
+  }
+  return rows;
+}
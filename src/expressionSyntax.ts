@@ -0,0 +1,248 @@
+import { ColumnAggregations, ColumnAggregator, ColumnCalculation, ColumnData, disabledFunctions, getReferenceName, isAvailableFunction, math, parseColumnReference } from './columnDataUtils';
+
+export type ExpressionTokenType =
+  'reference' | 'function' | 'identifier' | 'number' | 'string' | 'operator' | 'whitespace' | 'unknown';
+
+/**
+ * A piece of an expression, with its position in the expression text
+ */
+export interface ExpressionToken {
+  type: ExpressionTokenType;
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * A problem found in an expression, with the range of text it applies to
+ */
+export interface ExpressionDiagnostic {
+  start: number;
+  end: number;
+  message: string;
+}
+
+const tokenPatterns: [ExpressionTokenType, RegExp][] = [
+  ['reference', /#[^#]*#?/y],
+  ['whitespace', /\s+/y],
+  ['number', /(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/y],
+  ['string', /"(?:[^"\\]|\\.)*"?|'(?:[^'\\]|\\.)*'?/y],
+  ['function', /[A-Za-z_][A-Za-z0-9_]*(?=\s*\()/y],
+  ['identifier', /[A-Za-z_][A-Za-z0-9_]*/y],
+  ['operator', /==|!=|<=|>=|[-+*/^%=<>!&|,?:;()[\]{}.']/y],
+];
+
+/**
+ * Splits an expression into tokens for syntax highlighting. Column references are a
+ * single token, including a reference that is still missing its closing '#'.
+ * @param expression Mathematical expression with variables wrapped in '#' characters
+ */
+export function tokenizeExpression(expression: string): ExpressionToken[] {
+  let tokens: ExpressionToken[] = [];
+  let position = 0;
+  while (position < expression.length) {
+    let token: ExpressionToken | undefined;
+    for (let [type, pattern] of tokenPatterns) {
+      pattern.lastIndex = position;
+      let match = pattern.exec(expression);
+      if (match !== null && match[0].length > 0) {
+        token = { type, text: match[0], start: position, end: position + match[0].length };
+        break;
+      }
+    }
+    if (token === undefined) {
+      token = { type: 'unknown', text: expression[position], start: position, end: position + 1 };
+    }
+    tokens.push(token);
+    position = token.end;
+  }
+  return tokens;
+}
+
+/**
+ * Checks if a reference token is missing its closing '#'
+ */
+function isUnclosedReference(token: ExpressionToken): boolean {
+  return token.type == 'reference' && (token.text.length == 1 || !token.text.endsWith('#'));
+}
+
+/**
+ * Replaces column references with symbols and returns a function mapping positions in the
+ * replaced expression back to the original one, so parse errors can be located.
+ */
+function replaceReferences(tokens: ExpressionToken[]): { text: string, toOriginalPosition: (position: number) => number } {
+  let text = '';
+  let segments: { replacedStart: number, replacedEnd: number, token: ExpressionToken }[] = [];
+  let symbols = new Map<string, string>();
+  for (let token of tokens) {
+    if (token.type == 'reference') {
+      if (!symbols.has(token.text)) symbols.set(token.text, `__column_${symbols.size}`);
+      let symbol = symbols.get(token.text) as string;
+      segments.push({ replacedStart: text.length, replacedEnd: text.length + symbol.length, token });
+      text += symbol;
+    } else {
+      segments.push({ replacedStart: text.length, replacedEnd: text.length + token.text.length, token });
+      text += token.text;
+    }
+  }
+  let toOriginalPosition = (position: number) => {
+    let segment = segments.find((segment) => position >= segment.replacedStart && position < segment.replacedEnd);
+    if (segment === undefined) return tokens.length > 0 ? tokens[tokens.length - 1].end : 0;
+    if (segment.token.type == 'reference') return segment.token.start;
+    return segment.token.start + position - segment.replacedStart;
+  };
+  return { text, toOriginalPosition };
+}
+
+/**
+ * Validates an expression the same way ColumnCalculation compiles it. Reports references
+ * missing the closing '#', references to columns that don't exist, unknown functions, the
+ * mathjs functions disabled in expressions and syntax errors, each with the range of text
+ * they apply to.
+ * @param expression Mathematical expression with variables wrapped in '#' characters
+ * @param columnNames Names of the columns that can be referenced
+ * @returns Problems found, empty if the expression is valid
+ */
+export function validateExpression(expression: string, columnNames: string[]): ExpressionDiagnostic[] {
+  let tokens = tokenizeExpression(expression);
+  let diagnostics: ExpressionDiagnostic[] = [];
+
+  let unclosedReference = tokens.find(isUnclosedReference);
+  if (unclosedReference !== undefined) {
+    return [{ start: unclosedReference.start, end: unclosedReference.end, message: "Column reference is missing the closing '#'" }];
+  }
+
+  let knownColumns = new Set(columnNames);
+  for (let token of tokens) {
+    if (token.type != 'reference') continue;
+    let columnName = getReferenceName(parseColumnReference(token.text.slice(1, -1)));
+    if (!knownColumns.has(columnName)) {
+      diagnostics.push({ start: token.start, end: token.end, message: `There is no column named "${columnName}"` });
+    }
+  }
+
+  let functionDiagnostics = tokens
+    .filter((token) => token.type == 'function' && !isAvailableFunction(token.text))
+    .map((token) => ({ start: token.start, end: token.end, message: disabledFunctions.includes(token.text) ? `Function "${token.text}" is not available` : `Unknown function "${token.text}"` }));
+
+  let calculation = new ColumnCalculation(expression);
+  if (calculation.parseError !== null) {
+    let message = calculation.parseError.replace(/\s*\(char \d+\)$/, '');
+    let { text, toOriginalPosition } = replaceReferences(tokens);
+    try {
+      math.parse(text);
+      diagnostics.push(...(functionDiagnostics.length > 0 ? functionDiagnostics : [{ start: 0, end: expression.length, message }]));
+    } catch (error) {
+      let character = (error as { char?: number }).char;
+      let start = character === undefined ? 0 : Math.max(0, Math.min(toOriginalPosition(character - 1), expression.length - 1));
+      diagnostics.push({ start, end: character === undefined ? expression.length : start + 1, message });
+    }
+    return diagnostics;
+  }
+
+  return diagnostics.concat(functionDiagnostics);
+}
+
+/**
+ * Finds the column reference being typed at the caret, used to suggest column names.
+ * @returns Range of the reference, from the opening '#' to the closing one if there is one,
+ * and the text typed before the caret, or null if the caret isn't inside a column reference
+ */
+export function getReferenceAtCaret(expression: string, caret: number): { start: number, end: number, prefix: string } | null {
+  let before = expression.slice(0, caret);
+  let openingHashes = (before.match(/#/g) ?? []).length;
+  if (openingHashes % 2 == 0) return null;
+  let start = before.lastIndexOf('#');
+  let closing = expression.indexOf('#', caret);
+  let isBalanced = (expression.match(/#/g) ?? []).length % 2 == 0;
+  let end = closing == -1 || !isBalanced ? caret : closing + 1;
+  return { start, end, prefix: expression.slice(start + 1, caret) };
+}
+
+/**
+ * Rewrites the references to a column so they use its new name. Row offsets are kept,
+ * eg.: "#Old[-1]#" becomes "#New[-1]#".
+ * @param expression Mathematical expression with variables wrapped in '#' characters
+ * @param oldName Name being replaced
+ * @param newName Name replacing it
+ * @param tableName Table of the renamed column, for references from another table of
+ * the workbook. Only references to the same table are rewritten if not provided.
+ */
+export function renameColumnReferences(expression: string, oldName: string, newName: string, tableName?: string): string {
+  let prefix = tableName === undefined ? '' : `${tableName}!`;
+  return tokenizeExpression(expression).map((token) => {
+    if (token.type != 'reference' || isUnclosedReference(token)) return token.text;
+    let variable = token.text.slice(1, -1);
+    let reference = parseColumnReference(variable);
+    if (reference.tableName !== tableName || reference.columnName != oldName) return token.text;
+    return `#${prefix}${newName}${variable.slice(prefix.length + oldName.length)}#`;
+  }).join('');
+}
+
+/**
+ * Rewrites the references to the columns of a table so they use its new name, eg.:
+ * "#Old!Glucose#" becomes "#New!Glucose#"
+ * @param expression Mathematical expression with variables wrapped in '#' characters
+ * @param oldName Table name being replaced
+ * @param newName Table name replacing it
+ */
+export function renameTableReferences(expression: string, oldName: string, newName: string): string {
+  return tokenizeExpression(expression).map((token) => {
+    if (token.type != 'reference' || isUnclosedReference(token)) return token.text;
+    let variable = token.text.slice(1, -1);
+    if (parseColumnReference(variable).tableName !== oldName) return token.text;
+    return `#${newName}${variable.slice(oldName.length)}#`;
+  }).join('');
+}
+
+/**
+ * Lists the calculated columns whose expressions change when a column is renamed, with
+ * their current and rewritten expressions. The renamed column itself is left out.
+ * @param columns Columns of the table
+ * @param oldName Name being replaced
+ * @param newName Name replacing it
+ */
+export function getRenamedExpressions(columns: ColumnData[], oldName: string, newName: string): { columnIndex: number, expression: string, renamedExpression: string }[] {
+  let renamed: { columnIndex: number, expression: string, renamedExpression: string }[] = [];
+  if (oldName == newName) return renamed;
+  columns.forEach((column, columnIndex) => {
+    if (column.columnType != 'calculated' || column.columnName == oldName) return;
+    let expression = column.calculation.expression;
+    let renamedExpression = renameColumnReferences(expression, oldName, newName);
+    if (renamedExpression != expression) renamed.push({ columnIndex, expression, renamedExpression });
+  });
+  return renamed;
+}
+
+/**
+ * Validates the expression of a Custom aggregation. Other aggregations have no expression
+ * and are always valid.
+ * @param aggregation Aggregation to validate
+ * @param columnNames Names of the columns that can be referenced
+ * @returns Problems found, empty if the aggregation is valid
+ */
+export function validateAggregation(aggregation: ColumnAggregator, columnNames: string[]): ExpressionDiagnostic[] {
+  if (aggregation.operation !== ColumnAggregations.Custom) return [];
+  if (aggregation.expression.trim() === '') return [{ start: 0, end: 0, message: 'Custom aggregations need an expression' }];
+  return validateExpression(aggregation.expression, columnNames);
+}
+
+/**
+ * Checks if a column name can be used and referenced from expressions: it can't be empty
+ * or taken, contain the '#' and '!' characters or end like a row offset or an aggregation,
+ * eg.: "Volume[-1]" or "Volume.Max".
+ * @param name Name to validate
+ * @param columnNames Names of the columns of the table
+ * @param currentName Current name of the column being renamed, which can be kept
+ * @returns Error message, or null if the name is valid
+ */
+export function validateColumnName(name: string, columnNames: string[], currentName?: string): string | null {
+  if (name.trim() === '') return 'The column needs a name';
+  if (name === currentName) return null;
+  if (columnNames.includes(name)) return 'A column with this name already exists';
+  if (/[#!]/.test(name)) return 'Column names can\'t contain "#" or "!"';
+  let reference = parseColumnReference(name);
+  if (reference.aggregation !== undefined) return `Column names can't end with an aggregation like ".${reference.aggregation}"`;
+  if (reference.columnName !== name) return 'Column names can\'t end with a row offset like "[-1]"';
+  return null;
+}
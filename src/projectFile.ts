@@ -0,0 +1,337 @@
+import { AggregationOptions, ColumnAggregations, ColumnAggregator, ColumnCalculation, ColumnData, DataTable, validateUnit } from './columnDataUtils';
+import { ColumnFormat, defaultColumnFormat, isDefaultFormat } from './valueFormat';
+
+/**
+ * Version of the project file schema written by this application. Increase it whenever
+ * the schema changes and add a migration from the previous version.
+ */
+export const projectFileVersion = 6;
+
+/**
+ * Serialized ColumnAggregator, with the options of Percentile and Custom aggregations
+ */
+export interface AggregationDefinition extends AggregationOptions {
+  operation: ColumnAggregations;
+}
+
+/**
+ * Serialized ColumnData. Expression is only present for calculated columns, unit only for
+ * columns with one and format only for columns that don't use the default format.
+ */
+export interface ColumnDefinition {
+  name: string;
+  type: ColumnData['columnType'];
+  id: string;
+  expression?: string;
+  aggregations: AggregationDefinition[];
+  unit?: string;
+  format?: Partial<ColumnFormat>;
+}
+
+/**
+ * Another table of the workbook saved with a project, so the references to it keep
+ * working when the project is opened. Data is embedded when the project's data is.
+ */
+export interface LinkedTableDefinition {
+  name: string;
+  keyColumnId: string | null;
+  columns: ColumnDefinition[];
+  data?: { [key: string]: { [key: string]: string | number } };
+}
+
+/**
+ * A saved table definition. Data is either embedded, keyed by column id, or only referenced
+ * by the name of the file it was imported from, in which case the columns are applied to
+ * the current data. Projects saved from a workbook have the name and key column of the
+ * table, and the other tables of the workbook.
+ */
+export interface ProjectFile {
+  version: number;
+  name?: string;
+  keyColumnId?: string | null;
+  columns: ColumnDefinition[];
+  data?: { [key: string]: { [key: string]: string | number } };
+  dataSource?: string;
+  tables: LinkedTableDefinition[];
+}
+
+/**
+ * Thrown when a project file can't be read
+ */
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+/**
+ * A project file as read from JSON, of any schema version. Its contents are only known
+ * once it has been migrated and validated.
+ */
+export interface StoredProject {
+  version: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Checks if a value read from JSON is an object, so its properties can be read
+ */
+function isRecord(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Checks if a value read from JSON looks like a project file of some version
+ */
+function isStoredProject(value: unknown): value is StoredProject {
+  return isRecord(value) && typeof value.version === 'number';
+}
+
+/**
+ * Migrations from each schema version to the next one. The migration registered under
+ * version n receives a version n project and returns a version n + 1 project. Values
+ * that don't have the expected shape are kept as they are, validation rejects them after
+ * migrating.
+ */
+const migrations: { [version: number]: (project: StoredProject) => StoredProject } = {
+  // Version 1 keyed embedded data by column position, version 2 keys it by column id
+  1: (project) => {
+    let { columns, data } = project;
+    if (!isRecord(data) || !Array.isArray(columns)) return { ...project, version: 2 };
+    let dataById: { [key: string]: unknown } = {};
+    for (let c = 0; c < columns.length; c++) {
+      let column: unknown = columns[c];
+      if (isRecord(column) && typeof column.id === 'string' && data[String(c)] !== undefined) dataById[column.id] = data[String(c)];
+    }
+    return { ...project, version: 2, data: dataById };
+  },
+  // Version 2 had a single aggregation per column, version 3 has a list of them
+  2: (project) => {
+    let columns: unknown = project.columns;
+    if (!Array.isArray(columns)) return { ...project, version: 3 };
+    return {
+      ...project,
+      version: 3,
+      columns: (columns as unknown[]).map((value) => {
+        if (!isRecord(value)) return value;
+        let { aggregation, ...column } = value;
+        return { ...column, aggregations: aggregation === undefined || aggregation === ColumnAggregations.None ? [] : [{ operation: aggregation }] };
+      }),
+    };
+  },
+  // Version 4 adds optional column units, older columns have none
+  3: (project) => ({ ...project, version: 4 }),
+  // Version 5 adds optional column formats, older columns use the default format
+  4: (project) => ({ ...project, version: 5 }),
+  // Version 6 saves the other tables of the workbook, older projects have a single table
+  5: (project) => ({ ...project, version: 6, tables: [] }),
+};
+
+/**
+ * Upgrades a project file of any older schema version to the current one by applying
+ * migrations in order. The result still has to be validated.
+ */
+export function migrateProject(project: StoredProject): StoredProject {
+  let migrated = project;
+  while (migrated.version < projectFileVersion) {
+    let migration = migrations[migrated.version];
+    if (migration === undefined) throw new ProjectFileError(`Project file version ${migrated.version} is not supported`);
+    migrated = migration(migrated);
+  }
+  return migrated;
+}
+
+/**
+ * Checks the shape of the column definitions of a table of a migrated project file
+ */
+function validateColumns(columns: unknown): asserts columns is ColumnDefinition[] {
+  if (!Array.isArray(columns)) throw new ProjectFileError('Project file has no columns');
+  for (let column of columns as unknown[]) {
+    if (!isRecord(column) || typeof column.name !== 'string' || typeof column.id !== 'string') {
+      throw new ProjectFileError('Every column needs a name and an id');
+    }
+    if (typeof column.type !== 'string' || !['time', 'data', 'calculated', ''].includes(column.type)) {
+      throw new ProjectFileError(`Column "${column.name}" has an unknown type "${String(column.type)}"`);
+    }
+    let aggregations: unknown = column.aggregations;
+    if (!Array.isArray(aggregations)) throw new ProjectFileError(`Column "${column.name}" has no aggregations`);
+    for (let aggregation of aggregations as unknown[]) {
+      let operation = isRecord(aggregation) ? aggregation.operation : aggregation;
+      if (!isRecord(aggregation) || !Object.values<unknown>(ColumnAggregations).includes(operation)) {
+        throw new ProjectFileError(`Column "${column.name}" has an unknown aggregation "${String(operation)}"`);
+      }
+      if (operation == ColumnAggregations.Custom && typeof aggregation.expression !== 'string') {
+        throw new ProjectFileError(`Custom aggregation of column "${column.name}" has no expression`);
+      }
+    }
+    if (column.type == 'calculated' && typeof column.expression !== 'string') {
+      throw new ProjectFileError(`Calculated column "${column.name}" has no expression`);
+    }
+    if (column.unit !== undefined && (typeof column.unit !== 'string' || validateUnit(column.unit) !== null)) {
+      throw new ProjectFileError(`Column "${column.name}" has an invalid unit "${String(column.unit)}"`);
+    }
+    if (column.format !== undefined && !isRecord(column.format)) {
+      throw new ProjectFileError(`Column "${column.name}" has an invalid format`);
+    }
+  }
+}
+
+/**
+ * Checks the shape of a migrated project file
+ */
+function validateProject(project: StoredProject): asserts project is StoredProject & ProjectFile {
+  validateColumns(project.columns);
+  if (project.data !== undefined && !isRecord(project.data)) {
+    throw new ProjectFileError('Project file data is invalid');
+  }
+  if (project.dataSource !== undefined && typeof project.dataSource !== 'string') {
+    throw new ProjectFileError('Project file data source is invalid');
+  }
+  if (project.name !== undefined && typeof project.name !== 'string') {
+    throw new ProjectFileError('Project file table name is invalid');
+  }
+  if (project.keyColumnId !== undefined && project.keyColumnId !== null && typeof project.keyColumnId !== 'string') {
+    throw new ProjectFileError('Project file key column is invalid');
+  }
+  let tables: unknown = project.tables;
+  if (!Array.isArray(tables)) throw new ProjectFileError('Project file has no tables');
+  for (let table of tables as unknown[]) {
+    if (!isRecord(table) || typeof table.name !== 'string') throw new ProjectFileError('Every table needs a name');
+    if (table.keyColumnId !== null && typeof table.keyColumnId !== 'string') {
+      throw new ProjectFileError(`Table "${table.name}" has an invalid key column`);
+    }
+    if (!Array.isArray(table.columns)) throw new ProjectFileError(`Table "${table.name}" has no columns`);
+    validateColumns(table.columns);
+    if (table.data !== undefined && !isRecord(table.data)) throw new ProjectFileError(`Table "${table.name}" has invalid data`);
+  }
+}
+
+/**
+ * Serializes a ColumnData
+ */
+export function serializeColumn(column: ColumnData): ColumnDefinition {
+  return {
+    name: column.columnName,
+    type: column.columnType,
+    id: column.columnId,
+    ...(column.columnType == 'calculated' ? { expression: column.calculation.expression } : {}),
+    aggregations: column.aggregations.map((aggregation) => ({ operation: aggregation.operation, ...aggregation.getOptions() })),
+    ...(column.unit !== '' ? { unit: column.unit } : {}),
+    ...(!isDefaultFormat(column.format) ? { format: column.format } : {}),
+  };
+}
+
+/**
+ * Builds a ColumnData from its serialized definition
+ */
+export function deserializeColumn(definition: ColumnDefinition): ColumnData {
+  let column = new ColumnData(definition.name, definition.type, definition.id).withAggregations(
+    definition.aggregations.map((aggregation) => new ColumnAggregator(aggregation.operation, aggregation)),
+  );
+  if (definition.type == 'calculated') column.withCalculation(new ColumnCalculation(definition.expression ?? ''));
+  return column.withUnit(definition.unit ?? '').withFormat({ ...defaultColumnFormat, ...definition.format });
+}
+
+/**
+ * Creates a project file from a table.
+ * @param table Table to save
+ * @param embedData Whether the table data is saved in the file
+ * @param dataSource Name of the file the data was imported from, if any
+ */
+export function createProject(table: DataTable, embedData: boolean, dataSource?: string): ProjectFile {
+  let project: ProjectFile = {
+    version: projectFileVersion,
+    columns: table.columns.map(serializeColumn),
+    tables: [],
+  };
+  if (embedData) {
+    let data: { [key: string]: { [key: string]: string | number } } = {};
+    table.columns.forEach((column) => {
+      if (column.columnType != 'calculated' && table.data[column.columnId] !== undefined) data[column.columnId] = table.data[column.columnId];
+    });
+    project.data = data;
+  }
+  if (dataSource !== undefined && dataSource !== '') project.dataSource = dataSource;
+  return project;
+}
+
+/**
+ * Reads a project file, migrating it to the current schema version.
+ * @param text Project file contents
+ * @throws ProjectFileError if the file isn't a valid project file
+ */
+export function parseProject(text: string): ProjectFile {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new ProjectFileError('Project file is not valid JSON');
+  }
+  if (!isStoredProject(parsed)) {
+    throw new ProjectFileError('Project file has no version');
+  }
+  if (parsed.version > projectFileVersion) {
+    throw new ProjectFileError(`Project file version ${parsed.version} is newer than this application supports`);
+  }
+  let project = migrateProject(parsed);
+  validateProject(project);
+  return project;
+}
+
+/**
+ * Finds the definition a project has for a data or time column of the current table,
+ * matching the column id first and the column name otherwise
+ */
+function findColumnDefinition(project: ProjectFile, column: ColumnData): ColumnDefinition | undefined {
+  let definitions = project.columns.filter((definition) => definition.type != 'calculated');
+  return definitions.find((definition) => definition.id == column.columnId)
+    ?? definitions.find((definition) => definition.name == column.columnName);
+}
+
+/**
+ * Lists the data and time columns of a project without data that have no matching column
+ * in the current table, so their definitions can't be applied
+ * @param project Project to load
+ * @param currentTable Table being displayed
+ * @returns Names of the unmatched columns
+ */
+export function getUnmatchedColumns(project: ProjectFile, currentTable: DataTable): string[] {
+  if (project.data !== undefined) return [];
+  let matched = new Set(currentTable.columns
+    .filter((column) => column.columnType != 'calculated')
+    .map((column) => findColumnDefinition(project, column)));
+  return project.columns
+    .filter((definition) => definition.type != 'calculated' && !matched.has(definition))
+    .map((definition) => definition.name);
+}
+
+/**
+ * Builds and compiles the table described by a project. Projects with embedded data
+ * replace the current table. Projects without data keep the current data columns, with
+ * the name, type, unit, format and aggregations the project has for them, matched by id
+ * or name, and replace the calculated columns with the ones in the project.
+ * @param project Project to load
+ * @param currentTable Table being displayed, used for projects without data
+ */
+export function loadProject(project: ProjectFile, currentTable: DataTable): DataTable {
+  let table: DataTable;
+  if (project.data !== undefined) {
+    table = new DataTable(project.data);
+    table.addColumns(project.columns.map(deserializeColumn));
+  } else {
+    let data: { [key: string]: { [key: string]: string | number } } = {};
+    let dataColumns: ColumnData[] = [];
+    currentTable.columns.forEach((column) => {
+      if (column.columnType == 'calculated') return;
+      if (currentTable.data[column.columnId] !== undefined) data[column.columnId] = currentTable.data[column.columnId];
+      let definition = findColumnDefinition(project, column) ?? serializeColumn(column);
+      dataColumns.push(deserializeColumn({ ...definition, id: column.columnId }));
+    });
+    table = new DataTable(data);
+    let calculatedColumns = project.columns.filter((column) => column.type == 'calculated').map(deserializeColumn);
+    table.addColumns(dataColumns.concat(calculatedColumns));
+  }
+  table.compile();
+  return table;
+}
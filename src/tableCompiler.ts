@@ -0,0 +1,211 @@
+import { CalculationError, DataTable } from './columnDataUtils';
+import { Workbook, WorkbookTableDefinition } from './workbook';
+
+/**
+ * Rows calculated per step, in the worker or in the page when workers aren't available.
+ * Small enough to handle cancel requests and user input quickly.
+ */
+export const compileBatchSize = 5000;
+
+/**
+ * Asks the worker to calculate the rows of some calculated columns of a table. The table
+ * travels as a project file with embedded data, the same serializable definition saved
+ * projects use, along with the tables of the workbook it references.
+ */
+export interface CompileRequest {
+  type: 'compile';
+  compileId: number;
+  tableName: string;
+  tables: WorkbookTableDefinition[];
+  columnIds: string[];
+}
+
+/**
+ * Stops a compile, its remaining rows are not calculated
+ */
+export interface CancelRequest {
+  type: 'cancel';
+  compileId: number;
+}
+
+export type CompileWorkerRequest = CompileRequest | CancelRequest;
+
+/**
+ * Consecutive rows of a calculated column, streamed back as they are calculated
+ */
+export interface CompiledRows {
+  type: 'rows';
+  compileId: number;
+  columnId: string;
+  startRow: number;
+  values: (string | number | null)[];
+  errors: { [key: string]: CalculationError };
+  resultUnit: string;
+}
+
+/**
+ * Sent once every row of a compile has been streamed back, or when it failed. Rows that
+ * weren't received are calculated in the page.
+ */
+export type CompileFinished =
+  { type: 'done', compileId: number } |
+  { type: 'failed', compileId: number, message: string };
+
+export type CompileWorkerResponse = CompiledRows | CompileFinished;
+
+/**
+ * Builds the request to calculate the rows of a table not calculated yet
+ * @param workbook Workbook of the table
+ * @param table Table being displayed
+ * @param compileId Identifies the compile in the responses
+ */
+export function createCompileRequest(workbook: Workbook, table: DataTable, compileId: number): CompileRequest {
+  let pendingColumns = table.pendingColumns.slice(table.pendingCursor.columnPosition);
+  let tableName = workbook.getEntry(table)?.name ?? '';
+  return {
+    type: 'compile',
+    compileId,
+    tableName,
+    tables: workbook.getDefinitions([tableName, ...workbook.getLinkedTableNames(tableName)]),
+    columnIds: pendingColumns.map((column) => column.columnId),
+  };
+}
+
+/**
+ * Rebuilds the workbook of a request and calculates the requested columns of its table, a
+ * batch of rows at a time. Referenced columns are calculated as needed, like in the page.
+ * @param request Compile request
+ * @param batchSize Maximum number of rows per batch
+ */
+export function* compileRows(request: CompileRequest, batchSize: number = compileBatchSize): Generator<CompiledRows> {
+  let table = Workbook.fromDefinitions(request.tables).getTable(request.tableName) ?? new DataTable({});
+  let rowCount = table.maxRow + 1;
+  for (let columnId of request.columnIds) {
+    let column = table.columns.find((column) => column.columnId === columnId);
+    if (column === undefined || column.columnType != 'calculated') continue;
+    for (let startRow = 0; startRow < rowCount; startRow += batchSize) {
+      let values: (string | number | null)[] = [];
+      let errors: { [key: string]: CalculationError } = {};
+      for (let r = startRow; r < Math.min(startRow + batchSize, rowCount); r++) {
+        column.ensureRow(r);
+        values.push(column.rows[String(r)] ?? null);
+        if (column.errors[String(r)] !== undefined) errors[String(r)] = column.errors[String(r)];
+      }
+      yield { type: 'rows', compileId: request.compileId, columnId, startRow, values, errors, resultUnit: column.resultUnit };
+    }
+  }
+}
+
+/**
+ * Calculates the rows of a table outside of rendering. A few rows are calculated in the
+ * page right away, which is enough for small changes. Larger compiles are sent to a
+ * worker that streams the rows back, so the page stays responsive. Without a worker, or
+ * if it fails, the rows are calculated in the page a batch at a time. Starting a compile
+ * cancels the one in progress.
+ */
+export class TableCompiler {
+  createWorker: () => Worker | null;
+  worker: Worker | null | undefined;
+  compileId: number;
+  table: DataTable | null;
+  onProgress: (progress: number) => void;
+  timeout: ReturnType<typeof setTimeout> | undefined;
+
+  /**
+   * @param createWorker Starts the worker when it is first needed, returns null where
+   * workers aren't available. The worker is created by the page, the worker script
+   * imports this module.
+   */
+  constructor(createWorker: () => Worker | null) {
+    this.createWorker = createWorker;
+    this.worker = undefined;
+    this.compileId = 0;
+    this.table = null;
+    this.onProgress = () => undefined;
+    this.timeout = undefined;
+  }
+
+  /**
+   * Calculates every row of the table not calculated yet
+   * @param workbook Workbook of the table, its other tables are read when referenced
+   * @param table Table being displayed
+   * @param onProgress Receives the fraction of rows calculated, from 0 to 1
+   */
+  compile(workbook: Workbook, table: DataTable, onProgress: (progress: number) => void) {
+    this.cancel();
+    this.table = table;
+    this.onProgress = onProgress;
+    let isDone = table.calculatePendingRows(compileBatchSize);
+    onProgress(table.getCalculationProgress());
+    if (isDone) return;
+    let worker = this.worker === undefined ? this.startWorker() : this.worker;
+    if (worker === null) {
+      this.calculateInPage();
+      return;
+    }
+    worker.postMessage(createCompileRequest(workbook, table, this.compileId));
+  }
+
+  /**
+   * Stops the compile in progress. Rows received afterwards are ignored, so this must be
+   * called before the table, or a table it references, changes.
+   */
+  cancel() {
+    clearTimeout(this.timeout);
+    if (this.table !== null) this.worker?.postMessage({ type: 'cancel', compileId: this.compileId });
+    this.table = null;
+    this.compileId++;
+  }
+
+  /**
+   * Stops the worker, a new one is started by the next compile that needs it
+   */
+  terminate() {
+    this.cancel();
+    this.worker?.terminate();
+    this.worker = undefined;
+  }
+
+  /**
+   * Starts the worker and listens to its responses. A worker that fails to load is
+   * replaced by calculating in the page.
+   */
+  startWorker(): Worker | null {
+    let worker = this.createWorker();
+    worker?.addEventListener('message', (event: MessageEvent<CompileWorkerResponse>) => this.handleResponse(event.data));
+    worker?.addEventListener('error', () => {
+      worker?.terminate();
+      this.worker = null;
+      if (this.table !== null) this.calculateInPage();
+    });
+    this.worker = worker;
+    return worker;
+  }
+
+  /**
+   * Stores streamed rows in the table, when they belong to the current compile
+   */
+  handleResponse(response: CompileWorkerResponse) {
+    let table = this.table;
+    if (table === null || response.compileId !== this.compileId) return;
+    if (response.type == 'rows') {
+      let column = table.columns.find((column) => column.columnId === response.columnId);
+      column?.storeCalculatedRows(response.startRow, response.values, response.errors, response.resultUnit);
+      table.calculatePendingRows(0);
+      this.onProgress(table.getCalculationProgress());
+    } else {
+      this.calculateInPage();
+    }
+  }
+
+  /**
+   * Calculates the remaining rows in the page, a batch at a time
+   */
+  calculateInPage() {
+    let table = this.table;
+    if (table === null) return;
+    let isDone = table.calculatePendingRows(compileBatchSize);
+    this.onProgress(table.getCalculationProgress());
+    if (!isDone) this.timeout = setTimeout(() => this.calculateInPage(), 0);
+  }
+}
@@ -0,0 +1,171 @@
+import { AggregationResult, ColumnData, DataTable, calculationError, calculationErrorLabels, CalculationError } from './columnDataUtils';
+
+/**
+ * Export file formats. 'excel-csv' is a CSV file Excel opens with the right encoding:
+ * it starts with a UTF-8 byte order mark and uses CRLF line endings.
+ */
+export type ExportFormat = 'csv' | 'excel-csv' | 'json';
+
+/**
+ * How cells with errors are exported: the short error label, the full error message or
+ * an empty cell
+ */
+export type ErrorCellFormat = 'label' | 'message' | 'blank';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  includeAggregations: boolean;
+  errorCells: ErrorCellFormat;
+  decimalPlaces: number | null;
+  applyColumnFormats: boolean;
+}
+
+export const defaultExportOptions: ExportOptions = {
+  format: 'csv',
+  includeAggregations: true,
+  errorCells: 'label',
+  decimalPlaces: null,
+  applyColumnFormats: false,
+};
+
+const exportMimeTypes: { [format in ExportFormat]: string } = {
+  'csv': 'text/csv',
+  'excel-csv': 'text/csv',
+  'json': 'application/json',
+};
+
+/**
+ * Converts a stored cell value into an exported value. Numeric values become numbers,
+ * rounded when decimal places are set, blanks become null and text is kept as is.
+ */
+function toExportValue(value: string | number, options: ExportOptions): string | number | null {
+  if (value === '') return null;
+  let number = typeof value === 'number' ? value : Number(value);
+  if (typeof value === 'string' && (value.trim() === '' || !isFinite(number))) return value;
+  if (options.decimalPlaces === null) return number;
+  return Number(number.toFixed(options.decimalPlaces));
+}
+
+/**
+ * Converts a cell error into an exported value according to the options
+ */
+function toExportError(error: CalculationError, options: ExportOptions): string | null {
+  if (options.errorCells == 'blank') return null;
+  if (options.errorCells == 'message') return error.message;
+  return `#${calculationErrorLabels[error.kind].toUpperCase()}`;
+}
+
+/**
+ * Collects every cell of a compiled table as exported values, row by row. When column
+ * formats are applied, values are exported as displayed instead, as text.
+ */
+function getExportRows(table: DataTable, options: ExportOptions): (string | number | null)[][] {
+  let rows: (string | number | null)[][] = [];
+  for (let r = 0; r <= table.maxRow; r++) {
+    rows.push(table.columns.map((column) => {
+      let error = column.getError(r);
+      if (error !== undefined) return toExportError(error, options);
+      if (options.applyColumnFormats) return column.getValue(r) === '' ? null : column.getFormattedValue(r);
+      return toExportValue(column.getValue(r), options);
+    }));
+  }
+  return rows;
+}
+
+/**
+ * Converts an aggregation result into an exported value. Aggregations that couldn't be
+ * evaluated are exported like cell errors.
+ */
+function toExportAggregation(result: AggregationResult, column: ColumnData, options: ExportOptions): string | number | null {
+  if (result.value === null) return toExportError(calculationError('evaluation', result.error ?? ''), options);
+  if (options.applyColumnFormats) return column.getFormattedAggregation(result);
+  return toExportValue(result.value, options);
+}
+
+/**
+ * Quotes a CSV field when it contains the delimiter, quotes, line breaks or surrounding spaces
+ */
+function escapeCsvField(value: string | number | null): string {
+  if (value === null) return '';
+  let text = String(value);
+  if (/[",\r\n]/.test(text) || text.trim() !== text) return `"${text.replace(/"/g, '""')}"`;
+  return text;
+}
+
+/**
+ * Writes a compiled table to CSV. The first line has the column names, escaped like every
+ * other field, and, when the table has aggregations and they are included, the last lines
+ * have the aggregation results formatted as "Operation: result", one line per aggregation
+ * row.
+ */
+export function exportToCsv(table: DataTable, options: ExportOptions): string {
+  let rows: (string | number | null)[][] = [table.columns.map((column) => column.columnName), ...getExportRows(table, options)];
+  if (options.includeAggregations && table.isThereColumnAggregations) {
+    let results = table.columns.map((_, c) => table.getAggregationResults(c));
+    for (let a = 0; a < table.aggregationRowCount; a++) {
+      rows.push(results.map((columnResults, c) => {
+        let result = columnResults[a];
+        if (result === undefined) return null;
+        return `${result.label}: ${toExportAggregation(result, table.columns[c], options) ?? ''}`;
+      }));
+    }
+  }
+  let text = rows.map((row) => row.map(escapeCsvField).join(',')).join(
+    options.format == 'excel-csv' ? '\r\n' : '\n',
+  );
+  return options.format == 'excel-csv' ? `\ufeff${text}\r\n` : `${text}\n`;
+}
+
+/**
+ * Writes a compiled table to JSON. Columns are described with their definitions and the
+ * unit their values are in, rows are objects keyed by column name and aggregations, when
+ * included, map column names to the list of their aggregations with the operation and result.
+ */
+export function exportToJson(table: DataTable, options: ExportOptions): string {
+  let columns = table.columns.map((column) => ({
+    name: column.columnName,
+    type: column.columnType,
+    id: column.columnId,
+    ...(column.columnType == 'calculated' ? { expression: column.calculation.expression } : {}),
+    ...(column.getUnit() !== '' ? { unit: column.getUnit() } : {}),
+  }));
+  let rows = getExportRows(table, options).map((row) => {
+    let exportedRow: { [key: string]: string | number | null } = {};
+    table.columns.forEach((column, c) => exportedRow[column.columnName] = row[c]);
+    return exportedRow;
+  });
+  let exported: { [key: string]: unknown } = { columns, rows };
+  if (options.includeAggregations && table.isThereColumnAggregations) {
+    let aggregations: { [key: string]: { operation: string, value: string | number | null, skippedErrors: number, skippedValues: number }[] } = {};
+    table.columns.forEach((column, c) => {
+      if (column.aggregations.length == 0) return;
+      aggregations[column.columnName] = table.getAggregationResults(c).map((result) => ({
+        operation: result.label,
+        value: toExportAggregation(result, column, options),
+        skippedErrors: result.skippedErrors,
+        skippedValues: result.skippedValues,
+      }));
+    });
+    exported.aggregations = aggregations;
+  }
+  return JSON.stringify(exported, null, 2);
+}
+
+/**
+ * Writes a compiled table in the format chosen in the options
+ */
+export function exportTable(table: DataTable, options: ExportOptions): string {
+  return options.format == 'json' ? exportToJson(table, options) : exportToCsv(table, options);
+}
+
+/**
+ * Makes the browser download text as a file
+ */
+export function downloadFile(contents: string, fileName: string, format: ExportFormat) {
+  let url = URL.createObjectURL(new Blob([contents], { type: exportMimeTypes[format] }));
+  let link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
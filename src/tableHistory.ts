@@ -0,0 +1,262 @@
+import { ColumnAggregations, ColumnAggregator, ColumnCalculation, ColumnData, DataTable } from './columnDataUtils';
+import { getRenamedExpressions, renameColumnReferences } from './expressionSyntax';
+import { ColumnFormat } from './valueFormat';
+import { Workbook } from './workbook';
+
+/**
+ * A change to a DataTable that can be applied and reverted
+ */
+export interface TableMutation {
+  description: string;
+  apply: (table: DataTable) => void;
+  revert: (table: DataTable) => void;
+}
+
+/**
+ * Changes the value of a data or time cell. Reverting a cell that had no value removes it
+ * again, so edits past the last row don't leave empty rows behind.
+ */
+export function updateCellMutation(table: DataTable, rowIndex: number, columnIndex: number, value: string | number): TableMutation {
+  let previousValue = table.data[table.columns[columnIndex].columnId]?.[String(rowIndex)];
+  return {
+    description: `Edit ${table.columns[columnIndex].columnName} row ${rowIndex + 1}`,
+    apply: (table) => table.updateCell(rowIndex, columnIndex, value),
+    revert: (table) => previousValue === undefined
+      ? table.clearCell(rowIndex, columnIndex)
+      : table.updateCell(rowIndex, columnIndex, previousValue),
+  };
+}
+
+/**
+ * Appends a column to the table
+ */
+export function addColumnMutation(column: ColumnData): TableMutation {
+  return {
+    description: `Add column ${column.columnName}`,
+    apply: (table) => table.addColumn(column),
+    revert: (table) => table.removeColumn(table.columns.lastIndexOf(column)),
+  };
+}
+
+/**
+ * Inserts a column at a position, with its data for non calculated columns
+ */
+export function insertColumnMutation(columnIndex: number, column: ColumnData, rows?: { [key: string]: string | number }): TableMutation {
+  return {
+    description: `Add column ${column.columnName}`,
+    apply: (table) => table.insertColumn(columnIndex, column, rows),
+    revert: (table) => table.removeColumn(table.columns.indexOf(column)),
+  };
+}
+
+/**
+ * Removes a column. Its data is kept so it can be restored.
+ */
+export function removeColumnMutation(table: DataTable, columnIndex: number): TableMutation {
+  let column = table.columns[columnIndex];
+  let rows: { [key: string]: string | number } | undefined;
+  return {
+    description: `Delete column ${column.columnName}`,
+    apply: (table) => {
+      rows = table.removeColumn(table.columns.indexOf(column));
+    },
+    revert: (table) => table.insertColumn(columnIndex, column, rows),
+  };
+}
+
+/**
+ * Inserts a copy of a column right after it. Calculated columns copy the expression, other
+ * columns copy their data. A copied time column becomes a data column, so the table keeps
+ * a single time column.
+ */
+export function duplicateColumnMutation(table: DataTable, columnIndex: number): TableMutation {
+  let column = table.columns[columnIndex];
+  let columnName = table.getUniqueColumnName(`${column.columnName} (copy)`);
+  let copy = new ColumnData(columnName, column.columnType == 'time' ? 'data' : column.columnType, table.getUniqueColumnId(columnName))
+    .withAggregations(column.aggregations)
+    .withUnit(column.unit)
+    .withFormat(column.format);
+  if (column.columnType == 'calculated') {
+    copy.withCalculation(new ColumnCalculation(column.calculation.expression));
+    return insertColumnMutation(columnIndex + 1, copy);
+  }
+  return insertColumnMutation(columnIndex + 1, copy, { ...table.data[column.columnId] });
+}
+
+/**
+ * Moves consecutive columns to another position
+ */
+export function moveColumnMutation(oldIndex: number, newIndex: number, length: number): TableMutation {
+  return {
+    description: 'Move columns',
+    apply: (table) => table.moveColumn(oldIndex, newIndex, length),
+    revert: (table) => table.moveColumn(newIndex, oldIndex, length),
+  };
+}
+
+/**
+ * Rewrites the column references of Custom aggregations after a rename
+ * @returns The same list when no aggregation references the renamed column
+ */
+function renameAggregationReferences(aggregations: ColumnAggregator[], oldName: string, newName: string): ColumnAggregator[] {
+  if (oldName == newName) return aggregations;
+  let renamed = aggregations.map((aggregation) => {
+    if (aggregation.operation !== ColumnAggregations.Custom) return aggregation;
+    let expression = renameColumnReferences(aggregation.expression, oldName, newName);
+    return expression == aggregation.expression ? aggregation : new ColumnAggregator(ColumnAggregations.Custom, { expression });
+  });
+  return renamed.some((aggregation, i) => aggregation !== aggregations[i]) ? renamed : aggregations;
+}
+
+/**
+ * Replaces a column, used when a column's name, expression or aggregations are edited.
+ * When the name changes, the expressions and Custom aggregations referencing the old name
+ * are rewritten in the same mutation, so a rename never breaks other columns. The
+ * references of the other tables of the workbook, if any, are rewritten too, and back
+ * when the mutation is reverted.
+ */
+export function replaceColumnMutation(table: DataTable, columnIndex: number, column: ColumnData, workbook?: Workbook): TableMutation {
+  let previousColumn = table.columns[columnIndex];
+  let replacements = new Map<number, ColumnData>([[columnIndex, column]]);
+  let previousColumns = new Map<number, ColumnData>([[columnIndex, previousColumn]]);
+  let oldName = previousColumn.columnName;
+  let newName = column.columnName;
+  if (oldName != newName && column.columnType == 'calculated') {
+    column.withCalculation(new ColumnCalculation(renameColumnReferences(column.calculation.expression, oldName, newName)));
+  }
+  column.withAggregations(renameAggregationReferences(column.aggregations, oldName, newName));
+  let renamedExpressions = new Map(getRenamedExpressions(table.columns, oldName, newName).map(
+    ({ columnIndex, renamedExpression }) => [columnIndex, renamedExpression],
+  ));
+  table.columns.forEach((dependent, dependentIndex) => {
+    if (dependentIndex == columnIndex) return;
+    let renamedExpression = renamedExpressions.get(dependentIndex);
+    let renamedAggregations = renameAggregationReferences(dependent.aggregations, oldName, newName);
+    if (renamedExpression === undefined && renamedAggregations === dependent.aggregations) return;
+    replacements.set(dependentIndex, new ColumnData(dependent.columnName, dependent.columnType, dependent.columnId)
+      .withCalculation(renamedExpression === undefined ? dependent.calculation : new ColumnCalculation(renamedExpression))
+      .withAggregations(renamedAggregations)
+      .withUnit(dependent.unit)
+      .withFormat(dependent.format));
+    previousColumns.set(dependentIndex, dependent);
+  });
+  let renameLinkedReferences = (table: DataTable, oldName: string, newName: string) => {
+    let tableName = workbook?.getEntry(table)?.name;
+    if (tableName !== undefined) workbook?.renameColumn(tableName, oldName, newName);
+  };
+  return {
+    description: `Edit column ${oldName}`,
+    apply: (table) => {
+      table.replaceColumns(replacements);
+      renameLinkedReferences(table, oldName, newName);
+    },
+    revert: (table) => {
+      table.replaceColumns(previousColumns);
+      renameLinkedReferences(table, newName, oldName);
+    },
+  };
+}
+
+/**
+ * Turns a calculated column into a data column holding its current values. Cells with
+ * errors become empty.
+ */
+export function freezeColumnMutation(table: DataTable, columnIndex: number): TableMutation {
+  let calculatedColumn = table.columns[columnIndex];
+  let rows = { ...calculatedColumn.getRows() };
+  let frozenColumn = new ColumnData(calculatedColumn.columnName, 'data', calculatedColumn.columnId)
+    .withAggregations(calculatedColumn.aggregations)
+    .withUnit(calculatedColumn.getUnit())
+    .withFormat(calculatedColumn.format);
+  return {
+    description: `Freeze column ${calculatedColumn.columnName}`,
+    apply: (table) => table.replaceColumn(columnIndex, frozenColumn, rows),
+    revert: (table) => {
+      table.replaceColumn(columnIndex, calculatedColumn);
+      delete table.data[calculatedColumn.columnId];
+    },
+  };
+}
+
+/**
+ * Changes how the values of a column are displayed. Stored values don't change, so nothing
+ * is recalculated.
+ */
+export function formatColumnMutation(table: DataTable, columnIndex: number, format: ColumnFormat): TableMutation {
+  let column = table.columns[columnIndex];
+  let previousFormat = column.format;
+  return {
+    description: `Format column ${column.columnName}`,
+    apply: () => column.withFormat(format),
+    revert: () => column.withFormat(previousFormat),
+  };
+}
+
+/**
+ * Keeps the mutations applied to a table so they can be undone and redone. Applying a new
+ * mutation discards the mutations that were undone.
+ */
+export class TableHistory {
+  undoStack: TableMutation[];
+  redoStack: TableMutation[];
+  limit: number;
+
+  /**
+   * @param limit Maximum number of mutations kept for undo
+   */
+  constructor(limit: number = 100) {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.limit = limit;
+  }
+
+  /**
+   * Applies a mutation to the table and records it
+   */
+  execute(table: DataTable, mutation: TableMutation) {
+    mutation.apply(table);
+    this.undoStack.push(mutation);
+    if (this.undoStack.length > this.limit) this.undoStack.shift();
+    this.redoStack = [];
+  }
+
+  /**
+   * Reverts the last applied mutation
+   * @returns Reverted mutation or undefined if there was nothing to undo
+   */
+  undo(table: DataTable): TableMutation | undefined {
+    let mutation = this.undoStack.pop();
+    if (mutation === undefined) return undefined;
+    mutation.revert(table);
+    this.redoStack.push(mutation);
+    return mutation;
+  }
+
+  /**
+   * Applies again the last undone mutation
+   * @returns Applied mutation or undefined if there was nothing to redo
+   */
+  redo(table: DataTable): TableMutation | undefined {
+    let mutation = this.redoStack.pop();
+    if (mutation === undefined) return undefined;
+    mutation.apply(table);
+    this.undoStack.push(mutation);
+    return mutation;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Forgets every mutation, used when the whole table is replaced
+   */
+  clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
@@ -0,0 +1,127 @@
+import { AggregationResult, ColumnAggregator, DataTable, calculationErrorLabels } from './columnDataUtils';
+
+/**
+ * Rows sharing the same values in the key columns
+ */
+export interface RowGroup {
+  keys: string[];
+  rowIndexes: number[];
+}
+
+/**
+ * A column of a grouped summary: one aggregation of one of the table columns
+ */
+export interface SummaryColumn {
+  columnIndex: number;
+  aggregation: ColumnAggregator;
+  label: string;
+}
+
+/**
+ * Grouped summary. Every group has one result per summary column, in order.
+ */
+export interface GroupSummary {
+  keyColumns: string[];
+  columns: SummaryColumn[];
+  groups: (RowGroup & { results: AggregationResult[] })[];
+}
+
+/**
+ * Pivot summary. Cells are indexed by row key and column key, and are null when no row
+ * has that combination of keys.
+ */
+export interface PivotSummary {
+  rowKeys: string[];
+  columnKeys: string[];
+  cells: (AggregationResult | null)[][];
+}
+
+/**
+ * Shown as the key of rows with an empty key column
+ */
+export const blankKey = '(blank)';
+
+/**
+ * Value of a key column used to group a row. Empty cells are grouped as "(blank)" and
+ * cells with errors by their error label.
+ */
+function getGroupKey(table: DataTable, rowIndex: number, columnIndex: number): string {
+  let column = table.columns[columnIndex];
+  let error = column.getError(rowIndex);
+  if (error !== undefined) return `#${calculationErrorLabels[error.kind].toUpperCase()}`;
+  let value = column.getValue(rowIndex);
+  return value.trim() === '' ? blankKey : value;
+}
+
+/**
+ * Groups rows by the values of the key columns. Groups are listed in the order their
+ * first row appears in the table.
+ * @param table Compiled table
+ * @param keyColumnIndexes Indexes of the key columns
+ * @param rowIndexes Rows to group, every row if not provided
+ */
+export function groupRows(table: DataTable, keyColumnIndexes: number[], rowIndexes?: number[]): RowGroup[] {
+  let groups = new Map<string, RowGroup>();
+  let rows = rowIndexes ?? Array.from({ length: table.maxRow + 1 }, (_, r) => r);
+  for (let r of rows) {
+    let keys = keyColumnIndexes.map((columnIndex) => getGroupKey(table, r, columnIndex));
+    let groupId = JSON.stringify(keys);
+    let group = groups.get(groupId);
+    if (group === undefined) {
+      group = { keys, rowIndexes: [] };
+      groups.set(groupId, group);
+    }
+    group.rowIndexes.push(r);
+  }
+  return Array.from(groups.values());
+}
+
+/**
+ * Summarizes the table by groups of rows. Every column that isn't a key column is
+ * summarized with each of its configured aggregations, calculated columns included.
+ * @param table Compiled table
+ * @param keyColumnIndexes Indexes of the key columns
+ * @param rowIndexes Rows to summarize, every row if not provided
+ */
+export function summarizeGroups(table: DataTable, keyColumnIndexes: number[], rowIndexes?: number[]): GroupSummary {
+  let columns: SummaryColumn[] = [];
+  table.columns.forEach((column, columnIndex) => {
+    if (keyColumnIndexes.includes(columnIndex)) return;
+    for (let aggregation of column.aggregations) {
+      columns.push({ columnIndex, aggregation, label: `${column.columnName} ${aggregation.getLabel()}` });
+    }
+  });
+  let groups = groupRows(table, keyColumnIndexes, rowIndexes).map((group) => ({
+    ...group,
+    results: columns.map(({ columnIndex, aggregation }) => table.aggregate(columnIndex, aggregation, group.rowIndexes)),
+  }));
+  return { keyColumns: keyColumnIndexes.map((columnIndex) => table.columns[columnIndex].columnName), columns, groups };
+}
+
+/**
+ * Summarizes one column in a pivot layout: rows are the values of one key column,
+ * columns the values of another and cells aggregate the rows with both values.
+ * @param table Compiled table
+ * @param rowKeyIndex Index of the column whose values become rows
+ * @param columnKeyIndex Index of the column whose values become columns
+ * @param valueColumnIndex Index of the aggregated column
+ * @param aggregation Aggregation of every cell
+ * @param rowIndexes Rows to summarize, every row if not provided
+ */
+export function pivotTable(
+  table: DataTable,
+  rowKeyIndex: number,
+  columnKeyIndex: number,
+  valueColumnIndex: number,
+  aggregation: ColumnAggregator,
+  rowIndexes?: number[],
+): PivotSummary {
+  let groups = groupRows(table, [rowKeyIndex, columnKeyIndex], rowIndexes);
+  let rowKeys = Array.from(new Set(groups.map((group) => group.keys[0])));
+  let columnKeys = Array.from(new Set(groups.map((group) => group.keys[1])));
+  let cells: (AggregationResult | null)[][] = rowKeys.map(() => columnKeys.map(() => null));
+  for (let group of groups) {
+    cells[rowKeys.indexOf(group.keys[0])][columnKeys.indexOf(group.keys[1])] = table.aggregate(valueColumnIndex, aggregation, group.rowIndexes);
+  }
+  return { rowKeys, columnKeys, cells };
+}
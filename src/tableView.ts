@@ -0,0 +1,160 @@
+import { ColumnData, DataTable, parseTime, toScopeValue } from './columnDataUtils';
+
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * Column the rows are sorted by. Columns are identified by id, so sorting survives renames
+ * and reordering.
+ */
+export interface ColumnSort {
+  columnId: string;
+  direction: SortDirection;
+}
+
+/**
+ * Condition a row must meet to be shown. Range filters keep numbers between min and max
+ * (inclusive, null for no bound), text filters keep values containing the text (ignoring
+ * case) and error filters keep cells with errors.
+ */
+export type ColumnFilter =
+  { kind: 'range', min: number | null, max: number | null } |
+  { kind: 'text', text: string } |
+  { kind: 'errors' };
+
+/**
+ * Rows of the aggregations: every row of the table or only the rows left by the filters
+ */
+export type AggregationScope = 'all' | 'visible';
+
+/**
+ * How the table is displayed. The view never changes the table: rows keep their original
+ * indexes, so calculations and row offsets always use the original order.
+ */
+export interface TableView {
+  sort: ColumnSort | null;
+  filters: { [columnId: string]: ColumnFilter };
+  aggregationScope: AggregationScope;
+}
+
+export const defaultTableView: TableView = {
+  sort: null,
+  filters: {},
+  aggregationScope: 'all',
+};
+
+/**
+ * What sorting and filtering read from a cell: its value, whether it has an error and the
+ * value it is sorted by. Cells with errors have an empty value.
+ */
+export interface CellKey {
+  value: string;
+  hasError: boolean;
+  sortValue: number | string | null;
+}
+
+/**
+ * Reads the key of a cell. Time columns sort by timestamp, numeric values as numbers and
+ * anything else as text. Empty cells and errors have no sort value.
+ */
+function getCellKey(column: ColumnData, rowIndex: number): CellKey {
+  if (column.getError(rowIndex) !== undefined) return { value: '', hasError: true, sortValue: null };
+  let value = column.getValue(rowIndex);
+  if (value.trim() === '') return { value, hasError: false, sortValue: null };
+  return { value, hasError: false, sortValue: column.columnType == 'time' ? parseTime(value) ?? value : toScopeValue(value) };
+}
+
+/**
+ * Keeps the cell keys of the columns the rows are sorted or filtered by, so every cell of
+ * those columns is read once for each version of a table instead of every time the view
+ * changes. A new cache has to be created whenever the table changes.
+ */
+export class ViewKeyCache {
+  table: DataTable;
+  keys: Map<string, CellKey[]>;
+
+  constructor(table: DataTable) {
+    this.table = table;
+    this.keys = new Map();
+  }
+
+  /**
+   * Retrieves the keys of every row of a column, reading them the first time
+   */
+  getKeys(columnIndex: number): CellKey[] {
+    let column = this.table.columns[columnIndex];
+    let keys = this.keys.get(column.columnId);
+    if (keys === undefined) {
+      keys = Array.from({ length: this.table.maxRow + 1 }, (_, r) => getCellKey(column, r));
+      this.keys.set(column.columnId, keys);
+    }
+    return keys;
+  }
+}
+
+/**
+ * Checks if a cell meets a filter
+ * @param key Key of the cell
+ * @param filter Filter to check
+ */
+export function matchesFilter(key: CellKey, filter: ColumnFilter): boolean {
+  if (filter.kind == 'errors') return key.hasError;
+  if (key.hasError) return false;
+  if (filter.kind == 'text') return key.value.toLowerCase().includes(filter.text.toLowerCase());
+  let number = toScopeValue(key.value);
+  if (typeof number !== 'number') return false;
+  return (filter.min === null || number >= filter.min) && (filter.max === null || number <= filter.max);
+}
+
+/**
+ * Compares two sort values. Numbers come before text, and both are compared naturally.
+ */
+function compareSortValues(a: number | string, b: number | string): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'number') return -1;
+  if (typeof b === 'number') return 1;
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+/**
+ * Lists the original indexes of the rows to display, in display order. Filters on columns
+ * that no longer exist are ignored. Sorting is stable and leaves empty cells and errors
+ * last in both directions.
+ * @param table Compiled table
+ * @param view Sort and filters to apply
+ * @param cache Keys already read from the table, for tables displayed with several views
+ */
+export function getVisibleRows(table: DataTable, view: TableView, cache: ViewKeyCache = new ViewKeyCache(table)): number[] {
+  let filters = Object.entries(view.filters)
+    .map(([columnId, filter]) => ({ columnIndex: table.columns.findIndex((column) => column.columnId == columnId), filter }))
+    .filter(({ columnIndex }) => columnIndex != -1)
+    .map(({ columnIndex, filter }) => ({ keys: cache.getKeys(columnIndex), filter }));
+  let rows: number[] = [];
+  for (let r = 0; r <= table.maxRow; r++) {
+    if (filters.every(({ keys, filter }) => matchesFilter(keys[r], filter))) rows.push(r);
+  }
+
+  let sortColumnIndex = view.sort === null ? -1 : table.columns.findIndex((column) => column.columnId == view.sort?.columnId);
+  if (view.sort === null || sortColumnIndex == -1) return rows;
+  let direction = view.sort.direction == 'asc' ? 1 : -1;
+  let sortKeys = cache.getKeys(sortColumnIndex);
+  return rows.sort((a, b) => {
+    let valueA = sortKeys[a].sortValue;
+    let valueB = sortKeys[b].sortValue;
+    if (valueA === null || valueB === null) {
+      if (valueA === valueB) return a - b;
+      return valueA === null ? 1 : -1;
+    }
+    return compareSortValues(valueA, valueB) * direction || a - b;
+  });
+}
+
+/**
+ * Short description of a filter, shown in the column header menu
+ */
+export function describeFilter(filter: ColumnFilter): string {
+  if (filter.kind == 'errors') return 'Errors only';
+  if (filter.kind == 'text') return `Contains "${filter.text}"`;
+  if (filter.min !== null && filter.max !== null) return `Between ${filter.min} and ${filter.max}`;
+  if (filter.min !== null) return `At least ${filter.min}`;
+  return `At most ${filter.max}`;
+}
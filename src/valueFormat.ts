@@ -0,0 +1,172 @@
+/**
+ * Types of the values stored in cells. Values are stored as numbers or text, the type
+ * tells how a value is interpreted when it is displayed.
+ */
+export type ValueType = 'number' | 'integer' | 'text' | 'datetime' | 'boolean' | 'empty';
+
+/**
+ * How numbers are written: as is, in scientific notation (eg.: 1.5e+3) or multiplied by
+ * 100 with a percent sign
+ */
+export type NumberNotation = 'standard' | 'scientific' | 'percent';
+
+/**
+ * Number of digits numbers are rounded to. Auto rounds to 12 significant figures, which
+ * hides floating point noise like 0.30000000000000004.
+ */
+export type NumberPrecision = 'auto' | 'decimals' | 'significant';
+
+/**
+ * How dates are written. ISO keeps the stored text, the other formats use local time.
+ */
+export type DateFormat = 'iso' | 'date' | 'datetime' | 'time' | 'locale';
+
+/**
+ * Display settings of a column. Number settings apply to number and integer values and
+ * the date format to datetime values, other values are displayed as they are stored.
+ */
+export interface ColumnFormat {
+  notation: NumberNotation;
+  precision: NumberPrecision;
+  digits: number;
+  thousandsSeparator: boolean;
+  dateFormat: DateFormat;
+}
+
+export const defaultColumnFormat: ColumnFormat = {
+  notation: 'standard',
+  precision: 'auto',
+  digits: 2,
+  thousandsSeparator: false,
+  dateFormat: 'iso',
+};
+
+const autoSignificantFigures = 12;
+
+/**
+ * Checks if a format is the default one, so it doesn't need to be saved
+ */
+export function isDefaultFormat(format: ColumnFormat): boolean {
+  return (Object.keys(defaultColumnFormat) as (keyof ColumnFormat)[]).every((key) => format[key] === defaultColumnFormat[key]);
+}
+
+/**
+ * Determines the type of a stored value. Numeric text counts as a number and dates are
+ * recognized in ISO format, eg.: "2021-01-01" or "2021-01-01T20:39:26.023Z".
+ */
+export function getValueType(value: string | number | undefined): ValueType {
+  if (value === undefined) return 'empty';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  let trimmed = value.trim();
+  if (trimmed === '') return 'empty';
+  if (isFinite(Number(trimmed))) return Number.isInteger(Number(trimmed)) ? 'integer' : 'number';
+  if (trimmed == 'true' || trimmed == 'false') return 'boolean';
+  if (/^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/.test(trimmed) && !isNaN(Date.parse(trimmed))) {
+    return 'datetime';
+  }
+  return 'text';
+}
+
+/**
+ * Pads a date component to two digits
+ */
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * Writes a date in one of the date formats
+ * @param value Stored value, text is returned as is for the ISO format
+ * @param time Milliseconds since epoch
+ */
+function formatDate(value: string | number, time: number, dateFormat: DateFormat): string {
+  let date = new Date(time);
+  let day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  let clock = `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+  switch (dateFormat) {
+    case 'date': return day;
+    case 'datetime': return `${day} ${clock}`;
+    case 'time': return clock;
+    case 'locale': return date.toLocaleString();
+    default: return typeof value === 'number' ? date.toISOString() : value;
+  }
+}
+
+/**
+ * Writes a number with the precision and thousands separator of a format, without
+ * applying the notation
+ */
+function formatPlainNumber(number: number, format: ColumnFormat): string {
+  let options: Intl.NumberFormatOptions = { useGrouping: format.thousandsSeparator };
+  if (format.precision == 'decimals') {
+    let digits = Math.min(Math.max(format.digits, 0), 20);
+    options = { ...options, minimumFractionDigits: digits, maximumFractionDigits: digits };
+  } else if (format.precision == 'significant') {
+    let digits = Math.min(Math.max(format.digits, 1), 21);
+    options = { ...options, minimumSignificantDigits: digits, maximumSignificantDigits: digits };
+  } else {
+    let rounded = Number(number.toPrecision(autoSignificantFigures));
+    if (!format.thousandsSeparator) return String(rounded);
+    options = { ...options, maximumSignificantDigits: autoSignificantFigures };
+  }
+  return new Intl.NumberFormat('en-US', options).format(number);
+}
+
+/**
+ * Writes a number in scientific notation with the precision of a format
+ */
+function formatScientific(number: number, format: ColumnFormat): string {
+  if (format.precision == 'decimals') return number.toExponential(Math.min(Math.max(format.digits, 0), 100));
+  if (format.precision == 'significant') return number.toExponential(Math.min(Math.max(format.digits, 1), 101) - 1);
+  return Number(number.toPrecision(autoSignificantFigures)).toExponential();
+}
+
+/**
+ * Writes a number according to a format
+ */
+export function formatNumber(number: number, format: ColumnFormat): string {
+  if (format.notation == 'scientific') return formatScientific(number, format);
+  if (format.notation == 'percent') return `${formatPlainNumber(number * 100, format)}%`;
+  return formatPlainNumber(number, format);
+}
+
+/**
+ * Writes a stored value for display. Only the displayed text is formatted, stored values
+ * keep their full precision.
+ * @param value Stored value
+ * @param format Display settings of the column
+ * @param valueType Type of the value, detected from the value if not provided. Time columns
+ * provide 'datetime' for timestamps stored as numbers.
+ */
+export function formatValue(value: string | number | undefined, format: ColumnFormat, valueType: ValueType = getValueType(value)): string {
+  if (value === undefined) return '';
+  if (valueType == 'number' || valueType == 'integer') return formatNumber(Number(value), format);
+  if (valueType == 'datetime') {
+    let time = typeof value === 'number' ? value : Date.parse(value);
+    return isNaN(time) ? String(value) : formatDate(value, time, format.dateFormat);
+  }
+  return String(value);
+}
+
+/**
+ * Reads text typed over a formatted value back into a value to store, so editing a cell
+ * that shows "1,234.5" or "12%" stores 1234.5 or 0.12. Dates written in the date formats
+ * are stored in ISO format. Anything else is kept as typed.
+ * @param text Text entered by the user
+ * @param format Display settings of the column
+ */
+export function unformatValue(text: string, format: ColumnFormat): string {
+  let trimmed = text.trim();
+  let number = trimmed;
+  if (format.thousandsSeparator) number = number.replace(/,/g, '');
+  if (format.notation == 'percent' && number.endsWith('%')) {
+    let percent = number.slice(0, -1).trim();
+    if (percent !== '' && isFinite(Number(percent))) return String(Number(percent) / 100);
+  }
+  if (number !== '' && isFinite(Number(number))) return number;
+  if (format.dateFormat != 'iso' && /^\d{4}-\d{2}-\d{2}( \d{2}:\d{2}(:\d{2})?)?$/.test(trimmed)) {
+    let time = Date.parse(trimmed.length == 10 ? `${trimmed}T00:00:00` : trimmed.replace(' ', 'T'));
+    if (!isNaN(time)) return new Date(time).toISOString();
+  }
+  return text;
+}
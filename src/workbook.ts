@@ -0,0 +1,471 @@
+import { ColumnCalculation, ColumnData, DataTable, LinkedTables, parseColumnReference } from './columnDataUtils';
+import { renameColumnReferences, renameTableReferences } from './expressionSyntax';
+import { LinkedTableDefinition, ProjectFile, createProject, loadProject, projectFileVersion } from './projectFile';
+
+/**
+ * A named table of a workbook. Rows of tables that both have a key column are joined by
+ * key, otherwise by row index.
+ */
+export interface WorkbookTable {
+  name: string;
+  table: DataTable;
+  keyColumnId: string | null;
+}
+
+/**
+ * Serialized WorkbookTable, used to send tables to the compile worker
+ */
+export interface WorkbookTableDefinition {
+  name: string;
+  keyColumnId: string | null;
+  project: ProjectFile;
+}
+
+/**
+ * A calculated column whose expression changes when a column of another table is renamed
+ */
+export interface RenamedLinkedExpression {
+  tableName: string;
+  columnName: string;
+  expression: string;
+  renamedExpression: string;
+}
+
+/**
+ * Finds the names of the tables referenced by a column's calculation
+ */
+function getReferencedTableNames(column: ColumnData): Set<string> {
+  let tableNames = new Set<string>();
+  if (column.columnType != 'calculated') return tableNames;
+  for (let variable of column.calculation.expectedVariables) {
+    let { tableName } = parseColumnReference(variable);
+    if (tableName !== undefined) tableNames.add(tableName);
+  }
+  return tableNames;
+}
+
+/**
+ * Checks if a table name can be written in references: it can't be empty or contain the
+ * '!' and '#' characters
+ * @returns Problem with the name, or null if it is valid
+ */
+export function validateTableName(name: string): string | null {
+  if (name.trim() === '') return 'Table names can\'t be empty';
+  if (/[!#]/.test(name)) return 'Table names can\'t contain "!" or "#"';
+  return null;
+}
+
+/**
+ * Several named tables whose expressions can reference each other's columns, eg.:
+ * "#Media!Glucose#" reads the Glucose column of the Media table. Each table is given the
+ * workbook as its linked tables. Tables keep track of the references between their own
+ * columns, the workbook tracks the references across tables: after a table changes, the
+ * columns of other tables referencing it are recalculated, and circular references across
+ * tables are turned into errors.
+ */
+export class Workbook implements LinkedTables {
+  tables: WorkbookTable[];
+  keyIndexes: Map<DataTable, Map<string, number>>;
+
+  constructor() {
+    this.tables = [];
+    this.keyIndexes = new Map();
+  }
+
+  /**
+   * Rebuilds a workbook from serialized tables, eg.: in the compile worker
+   */
+  static fromDefinitions(definitions: WorkbookTableDefinition[]): Workbook {
+    let workbook = new Workbook();
+    for (let { name, keyColumnId, project } of definitions) {
+      workbook.tables.push({ name, table: loadProject(project, new DataTable({})), keyColumnId });
+    }
+    workbook.tables.forEach(({ table }) => table.linkedTables = workbook);
+    workbook.updateLinkedCircularColumns();
+    return workbook;
+  }
+
+  /**
+   * Serializes some tables of the workbook with their data
+   * @param tableNames Names of the tables to serialize
+   */
+  getDefinitions(tableNames: string[]): WorkbookTableDefinition[] {
+    return this.tables
+      .filter(({ name }) => tableNames.includes(name))
+      .map(({ name, table, keyColumnId }) => ({ name, keyColumnId, project: createProject(table, true) }));
+  }
+
+  getTable(tableName: string): DataTable | undefined {
+    return this.tables.find(({ name }) => name == tableName)?.table;
+  }
+
+  getTableNames(): string[] {
+    return this.tables.map(({ name }) => name);
+  }
+
+  /**
+   * Finds the entry of a table of the workbook
+   */
+  getEntry(table: DataTable): WorkbookTable | undefined {
+    return this.tables.find((entry) => entry.table === table);
+  }
+
+  /**
+   * Creates a table name that isn't used by any table of the workbook yet, based on the
+   * provided name
+   */
+  getUniqueTableName(name: string): string {
+    let tableName = name;
+    for (let i = 2; this.getTable(tableName) !== undefined; i++) {
+      tableName = `${name} ${i}`;
+    }
+    return tableName;
+  }
+
+  /**
+   * Adds a compiled table to the workbook. Columns of other tables already referencing
+   * its name are recalculated.
+   */
+  addTable(name: string, table: DataTable, keyColumnId: string | null = null) {
+    this.tables.push({ name, table, keyColumnId });
+    table.linkedTables = this;
+    this.tableChanged(name);
+  }
+
+  /**
+   * Replaces the table with the provided name, eg.: after importing data into it. The key
+   * column is kept when the new table has a column with its id.
+   */
+  replaceTable(name: string, table: DataTable) {
+    let entry = this.tables.find((entry) => entry.name == name);
+    if (entry === undefined) return;
+    entry.table.linkedTables = null;
+    this.keyIndexes.delete(entry.table);
+    entry.table = table;
+    if (!table.columns.some((column) => column.columnId === entry?.keyColumnId)) entry.keyColumnId = null;
+    table.linkedTables = this;
+    this.tableChanged(name);
+  }
+
+  /**
+   * Removes a table. Columns of other tables referencing it get unknown column errors.
+   */
+  removeTable(name: string) {
+    let entry = this.tables.find((entry) => entry.name == name);
+    if (entry === undefined) return;
+    this.tables = this.tables.filter((other) => other !== entry);
+    entry.table.linkedTables = null;
+    entry.table.linkedCircularColumns = new Map();
+    this.keyIndexes.delete(entry.table);
+    this.tableChanged(name);
+  }
+
+  /**
+   * Renames a table and rewrites the references to it in every table
+   */
+  renameTable(oldName: string, newName: string) {
+    let entry = this.tables.find((entry) => entry.name == oldName);
+    if (entry === undefined || oldName == newName) return;
+    entry.name = newName;
+    this.rewriteExpressions((expression) => renameTableReferences(expression, oldName, newName));
+    this.tableChanged(newName);
+  }
+
+  /**
+   * Rewrites the references of other tables to a renamed column, eg.: "#Media!Glucose#"
+   * becomes "#Media!Glucose (mM)#". References within the table are rewritten by the
+   * rename itself.
+   * @param tableName Table of the renamed column
+   */
+  renameColumn(tableName: string, oldName: string, newName: string) {
+    if (oldName == newName) return;
+    this.rewriteExpressions((expression) => renameColumnReferences(expression, oldName, newName, tableName));
+  }
+
+  /**
+   * Lists the calculated columns whose references to a column of a table are rewritten
+   * when it is renamed, with their current and rewritten expressions
+   * @param tableName Table of the renamed column
+   */
+  getRenamedLinkedExpressions(tableName: string, oldName: string, newName: string): RenamedLinkedExpression[] {
+    let renamed: RenamedLinkedExpression[] = [];
+    if (oldName == newName) return renamed;
+    for (let { name, table } of this.tables) {
+      for (let column of table.columns) {
+        if (column.columnType != 'calculated') continue;
+        let expression = column.calculation.expression;
+        let renamedExpression = renameColumnReferences(expression, oldName, newName, tableName);
+        if (renamedExpression != expression) renamed.push({ tableName: name, columnName: column.columnName, expression, renamedExpression });
+      }
+    }
+    return renamed;
+  }
+
+  /**
+   * Creates a project file from a table of the workbook. The other tables are saved with
+   * it, so the references between tables keep working when it is opened again.
+   * @param name Name of the table to save
+   * @param embedData Whether the data of the tables is saved in the file
+   * @param dataSource Name of the file the data of the table was imported from, if any
+   */
+  saveProject(name: string, embedData: boolean, dataSource?: string): ProjectFile {
+    let entry = this.tables.find((entry) => entry.name == name);
+    if (entry === undefined) throw new Error(`There is no table named "${name}"`);
+    let project = createProject(entry.table, embedData, dataSource);
+    project.name = name;
+    project.keyColumnId = entry.keyColumnId;
+    project.tables = this.tables.filter((other) => other !== entry).map(({ name, table, keyColumnId }): LinkedTableDefinition => {
+      let { columns, data } = createProject(table, embedData);
+      return { name, keyColumnId, columns, ...(data !== undefined ? { data } : {}) };
+    });
+    return project;
+  }
+
+  /**
+   * Opens a project file into a table of the workbook. The table is renamed to the name it
+   * was saved with, unless another table has that name. The other tables saved with the
+   * project replace the tables with the same name, or are added, and are loaded the same
+   * way as the table: without embedded data, they keep the data of the tables they replace.
+   * @param name Name of the table to open the project into
+   * @returns Name of the table after opening the project
+   */
+  openProject(name: string, project: ProjectFile): string {
+    let tableName = name;
+    if (project.name !== undefined && project.name != name && this.getTable(project.name) === undefined) {
+      this.renameTable(name, project.name);
+      tableName = project.name;
+    }
+    for (let linked of project.tables) {
+      if (linked.name == tableName) continue;
+      let currentTable = this.getTable(linked.name);
+      let table = loadProject({
+        version: projectFileVersion,
+        columns: linked.columns,
+        data: linked.data ?? (currentTable === undefined ? {} : undefined),
+        tables: [],
+      }, currentTable ?? new DataTable({}));
+      if (currentTable === undefined) this.addTable(linked.name, table, linked.keyColumnId);
+      else this.replaceTable(linked.name, table);
+      this.setKeyColumn(linked.name, linked.keyColumnId);
+    }
+    this.replaceTable(tableName, loadProject(project, this.getTable(tableName) as DataTable));
+    if (project.keyColumnId !== undefined) this.setKeyColumn(tableName, project.keyColumnId);
+    return tableName;
+  }
+
+  /**
+   * Rewrites the calculated columns whose expression changes, in every table, and
+   * recalculates them. Columns are changed in place rather than replaced, as the
+   * histories of the tables keep the columns they hold to undo their own changes.
+   */
+  rewriteExpressions(rewrite: (expression: string) => string) {
+    let changedTables: string[] = [];
+    for (let { name, table } of this.tables) {
+      let rewritten = new Map<number, ColumnData>();
+      table.columns.forEach((column, columnIndex) => {
+        if (column.columnType != 'calculated') return;
+        let expression = rewrite(column.calculation.expression);
+        if (expression == column.calculation.expression) return;
+        rewritten.set(columnIndex, column.withCalculation(new ColumnCalculation(expression)));
+      });
+      if (rewritten.size == 0) continue;
+      table.replaceColumns(rewritten);
+      changedTables.push(name);
+    }
+    changedTables.forEach((name) => this.tableChanged(name));
+  }
+
+  /**
+   * Changes the key column rows of a table are joined by
+   * @param keyColumnId Id of the key column, null to join by row index
+   */
+  setKeyColumn(name: string, keyColumnId: string | null) {
+    let entry = this.tables.find((entry) => entry.name == name);
+    if (entry === undefined || entry.keyColumnId === keyColumnId) return;
+    entry.keyColumnId = keyColumnId;
+    let changedRows = new Map<number, Set<number> | 'all'>();
+    entry.table.columns.forEach((column, columnIndex) => {
+      if (getReferencedTableNames(column).size > 0) changedRows.set(columnIndex, 'all');
+    });
+    entry.table.recalculate(changedRows);
+    this.tableChanged(name);
+  }
+
+  getKeyColumnIndex(table: DataTable): number | undefined {
+    let keyColumnId = this.getEntry(table)?.keyColumnId;
+    let columnIndex = table.columns.findIndex((column) => column.columnId === keyColumnId);
+    return columnIndex == -1 ? undefined : columnIndex;
+  }
+
+  /**
+   * Maps each key of a table to the first row holding it. Built when first needed and
+   * kept until the table changes.
+   */
+  getKeyIndex(table: DataTable, keyColumnIndex: number): Map<string, number> {
+    let keyIndex = this.keyIndexes.get(table);
+    if (keyIndex !== undefined) return keyIndex;
+    keyIndex = new Map();
+    for (let r = 0; r <= table.maxRow; r++) {
+      let key = table.getValue(r, keyColumnIndex);
+      if (key !== '' && !keyIndex.has(key)) keyIndex.set(key, r);
+    }
+    this.keyIndexes.set(table, keyIndex);
+    return keyIndex;
+  }
+
+  /**
+   * Joins a row to a row of another table. When both tables have a key column, the row is
+   * joined to the first row of the other table with the same key, otherwise to the row
+   * with the same index.
+   * @returns Index of the joined row, or null if there is none
+   */
+  getLinkedRow(table: DataTable, linkedTable: DataTable, rowIndex: number): number | null {
+    let keyColumnIndex = this.getKeyColumnIndex(table);
+    let linkedKeyColumnIndex = this.getKeyColumnIndex(linkedTable);
+    if (keyColumnIndex === undefined || linkedKeyColumnIndex === undefined) {
+      return rowIndex <= linkedTable.maxRow ? rowIndex : null;
+    }
+    let key = table.getValue(rowIndex, keyColumnIndex);
+    if (key === '') return null;
+    return this.getKeyIndex(linkedTable, linkedKeyColumnIndex).get(key) ?? null;
+  }
+
+  /**
+   * Finds the names of the tables a table references, directly or through the tables it
+   * references, which are needed to calculate it
+   */
+  getLinkedTableNames(name: string): string[] {
+    let linkedNames: string[] = [];
+    let pending = [name];
+    while (pending.length > 0) {
+      let table = this.getTable(pending.pop() as string);
+      for (let column of table?.columns ?? []) {
+        for (let tableName of getReferencedTableNames(column)) {
+          if (tableName == name || linkedNames.includes(tableName) || this.getTable(tableName) === undefined) continue;
+          linkedNames.push(tableName);
+          pending.push(tableName);
+        }
+      }
+    }
+    return linkedNames;
+  }
+
+  /**
+   * Lists the columns of other tables referencing a column, eg.: to warn before deleting it
+   * @returns Names as written in references, eg.: "Cells!Yield"
+   */
+  getLinkedDependents(tableName: string, columnName: string): string[] {
+    let dependents: string[] = [];
+    for (let { name, table } of this.tables) {
+      for (let column of table.columns) {
+        if (column.columnType != 'calculated') continue;
+        let references = Array.from(column.calculation.expectedVariables).map(parseColumnReference);
+        if (references.some((reference) => reference.tableName == tableName && reference.columnName == columnName)) {
+          dependents.push(`${name}!${column.columnName}`);
+        }
+      }
+    }
+    return dependents;
+  }
+
+  /**
+   * Lists the columns of the other tables as written in references, used to validate and
+   * suggest references
+   * @param name Table the references are written in
+   */
+  getLinkedColumnNames(name: string): string[] {
+    return this.tables
+      .filter((entry) => entry.name != name)
+      .flatMap((entry) => entry.table.columns.map((column) => `${entry.name}!${column.columnName}`));
+  }
+
+  /**
+   * Updates the workbook after a table changed: its joins are built again and the columns
+   * of other tables referencing it are recalculated, which in turn recalculates the
+   * columns referencing those tables. Must be called after every change to a table.
+   * @param name Name of the table that changed
+   */
+  tableChanged(name: string) {
+    let pending = [name, ...this.updateLinkedCircularColumns()];
+    let visited = new Set<string>();
+    while (pending.length > 0) {
+      let changedName = pending.shift() as string;
+      if (visited.has(changedName)) continue;
+      visited.add(changedName);
+      let changedTable = this.getTable(changedName);
+      if (changedTable !== undefined) this.keyIndexes.delete(changedTable);
+      for (let { name, table } of this.tables) {
+        let changedRows = new Map<number, Set<number> | 'all'>();
+        table.columns.forEach((column, columnIndex) => {
+          if (getReferencedTableNames(column).has(changedName)) changedRows.set(columnIndex, 'all');
+        });
+        if (changedRows.size == 0) continue;
+        table.recalculate(changedRows);
+        pending.push(name);
+      }
+    }
+  }
+
+  /**
+   * Finds the calculated columns taking part in a circular reference through references
+   * to other tables, and gives them an error. Tables only find the circular references
+   * between their own columns, a column referencing its own table by name is found here
+   * as well. Columns entering or leaving a circular reference are recalculated.
+   * @returns Names of the tables whose circular columns changed
+   */
+  updateLinkedCircularColumns(): string[] {
+    let owners = new Map<ColumnData, WorkbookTable>();
+    let dependencies = new Map<ColumnData, ColumnData[]>();
+    for (let entry of this.tables) {
+      for (let column of entry.table.columns) {
+        if (column.columnType == 'calculated') owners.set(column, entry);
+      }
+    }
+    for (let [column, { table }] of owners) {
+      let referenced = table.getReferencedColumns(column).map((columnIndex) => table.columns[columnIndex]);
+      for (let variable of column.calculation.expectedVariables) {
+        let linkedColumn = table.getLinkedColumn(parseColumnReference(variable));
+        if (linkedColumn === undefined) continue;
+        referenced.push(linkedColumn.table.columns[linkedColumn.columnIndex]);
+        let linkedKeyColumnIndex = this.getKeyColumnIndex(linkedColumn.table);
+        if (linkedKeyColumnIndex !== undefined) referenced.push(linkedColumn.table.columns[linkedKeyColumnIndex]);
+      }
+      dependencies.set(column, referenced.filter((dependency) => owners.has(dependency)));
+    }
+
+    let reachable = new Map<ColumnData, Set<ColumnData>>();
+    for (let column of dependencies.keys()) {
+      let visited = new Set<ColumnData>();
+      let pending = [...(dependencies.get(column) ?? [])];
+      while (pending.length > 0) {
+        let current = pending.pop() as ColumnData;
+        if (visited.has(current)) continue;
+        visited.add(current);
+        pending.push(...(dependencies.get(current) ?? []));
+      }
+      reachable.set(column, visited);
+    }
+    let circularColumns = new Map<DataTable, Map<ColumnData, string>>(this.tables.map(({ table }) => [table, new Map()]));
+    for (let [column, entry] of owners) {
+      if (!reachable.get(column)?.has(column)) continue;
+      let cycle = Array.from(owners.keys()).filter((other) => reachable.get(column)?.has(other) && reachable.get(other)?.has(column));
+      let names = cycle.map((other) => `"${owners.get(other)?.name}!${other.columnName}"`);
+      circularColumns.get(entry.table)?.set(column, `Circular reference between columns ${names.join(', ')}`);
+    }
+
+    let changedNames: string[] = [];
+    for (let { name, table } of this.tables) {
+      let previous = table.linkedCircularColumns;
+      let current = circularColumns.get(table) as Map<ColumnData, string>;
+      let changedRows = new Map<number, Set<number> | 'all'>();
+      table.columns.forEach((column, columnIndex) => {
+        if (previous.get(column) !== current.get(column)) changedRows.set(columnIndex, 'all');
+      });
+      table.linkedCircularColumns = current;
+      if (changedRows.size == 0) continue;
+      table.recalculate(changedRows);
+      changedNames.push(name);
+    }
+    return changedNames;
+  }
+}
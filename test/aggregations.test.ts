@@ -0,0 +1,80 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { ColumnAggregations, ColumnAggregator } from '../src/columnDataUtils';
+
+const rows = { 0: 4, 1: '2', 2: 9, 3: '', 4: 'n/a', 5: 5 };
+
+/**
+ * Aggregates the test rows with an operation
+ */
+function aggregate(operation: ColumnAggregations, options = {}) {
+  return new ColumnAggregator(operation, options).aggregate(rows);
+}
+
+describe('ColumnAggregator', () => {
+  test('aggregates numbers and numeric text', () => {
+    assert.equal(aggregate(ColumnAggregations.Sum), '20');
+    assert.equal(aggregate(ColumnAggregations.Max), '9');
+    assert.equal(aggregate(ColumnAggregations.Min), '2');
+    assert.equal(aggregate(ColumnAggregations.Average), '5');
+    assert.equal(aggregate(ColumnAggregations.Median), '4.5');
+    assert.equal(aggregate(ColumnAggregations.Range), '7');
+  });
+
+  test('computes the sample variance and standard deviation', () => {
+    assert.equal(aggregate(ColumnAggregations.Variance), '8.666666666666666');
+    assert.equal(Number(aggregate(ColumnAggregations.StdDev)), Math.sqrt(26 / 3));
+  });
+
+  test('counts numbers and non empty values', () => {
+    assert.equal(aggregate(ColumnAggregations.Count), '4');
+    assert.equal(aggregate(ColumnAggregations.CountNonEmpty), '5');
+  });
+
+  test('takes the first and last non empty values', () => {
+    assert.equal(aggregate(ColumnAggregations.First), '4');
+    assert.equal(aggregate(ColumnAggregations.Last), '5');
+  });
+
+  test('computes percentiles', () => {
+    assert.equal(aggregate(ColumnAggregations.Percentile, { percentile: 100 }), '9');
+    assert.equal(aggregate(ColumnAggregations.Percentile, { percentile: 50 }), '4.5');
+    assert.equal(new ColumnAggregator(ColumnAggregations.Percentile, { percentile: 90 }).getLabel(), 'Percentile(90)');
+  });
+
+  test('leaves aggregations of no numbers empty, except sums and counts', () => {
+    let empty = { 0: '', 1: 'text' };
+    assert.equal(new ColumnAggregator(ColumnAggregations.Max).aggregate(empty), '');
+    assert.equal(new ColumnAggregator(ColumnAggregations.Average).aggregate(empty), '');
+    assert.equal(new ColumnAggregator(ColumnAggregations.Sum).aggregate(empty), '0');
+    assert.equal(new ColumnAggregator(ColumnAggregations.Count).aggregate(empty), '0');
+  });
+
+  test('needs two numbers for the variance', () => {
+    assert.equal(new ColumnAggregator(ColumnAggregations.Variance).aggregate({ 0: 3 }), '');
+  });
+
+  test('counts the text values skipped by numeric aggregations', () => {
+    let result = new ColumnAggregator(ColumnAggregations.Sum).getResult(rows, 2);
+    assert.equal(result.value, '20');
+    assert.equal(result.skippedValues, 1);
+    assert.equal(result.skippedErrors, 2);
+    assert.equal(new ColumnAggregator(ColumnAggregations.CountNonEmpty).getResult(rows).skippedValues, 0);
+  });
+
+  test('evaluates custom aggregations over the referenced columns', () => {
+    let aggregator = new ColumnAggregator(ColumnAggregations.Custom, { expression: 'sum(#Mass#) / sum(#Volume#)' });
+    let columns: { [name: string]: { [key: string]: number } } = { Mass: { 0: 10, 1: 20 }, Volume: { 0: 2, 1: 4 } };
+    assert.equal(aggregator.aggregate({}, (name) => columns[name]), '5');
+    assert.equal(aggregator.getLabel(), 'sum(#Mass#) / sum(#Volume#)');
+  });
+
+  test('reports custom aggregations that fail', () => {
+    let unknown = new ColumnAggregator(ColumnAggregations.Custom, { expression: 'sum(#Missing#)' }).getResult({});
+    assert.equal(unknown.value, null);
+    assert.equal(unknown.error, 'There is no column named "Missing"');
+    let invalid = new ColumnAggregator(ColumnAggregations.Custom, { expression: 'sum(' }).getResult({});
+    assert.notEqual(invalid.error, null);
+  });
+});
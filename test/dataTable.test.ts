@@ -0,0 +1,259 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { ColumnCalculation, ColumnData, DataTable } from '../src/columnDataUtils';
+import { TableHistory, addColumnMutation, replaceColumnMutation, updateCellMutation } from '../src/tableHistory';
+import { parseProject } from '../src/projectFile';
+import { Workbook } from '../src/workbook';
+
+/**
+ * Creates a calculated column, its id is its name
+ */
+function calculated(name: string, expression: string): ColumnData {
+  return new ColumnData(name, 'calculated', name).withCalculation(new ColumnCalculation(expression));
+}
+
+/**
+ * Creates and compiles a table with a data column A holding 1, 2, 3 and the provided columns
+ */
+function createTable(...columns: ColumnData[]): DataTable {
+  let table = new DataTable({ a: { 0: 1, 1: 2, 2: 3 } });
+  table.addColumns([new ColumnData('A', 'data', 'a'), ...columns]);
+  table.compile();
+  return table;
+}
+
+/**
+ * Reads every cell of a column, errors are read as their kind
+ */
+function readColumn(table: DataTable, columnName: string): (string | undefined)[] {
+  let columnIndex = table.columnNameToIndexMapping[columnName];
+  return Array.from({ length: table.maxRow + 1 }, (_, r) => table.getError(r, columnIndex)?.kind ?? table.getValue(r, columnIndex));
+}
+
+describe('DataTable', () => {
+  test('calculates columns referencing other calculated columns', () => {
+    let table = createTable(calculated('C', '#B# + 1'), calculated('B', '#A# * 10'));
+    assert.deepEqual(readColumn(table, 'B'), ['10', '20', '30']);
+    assert.deepEqual(readColumn(table, 'C'), ['11', '21', '31']);
+  });
+
+  test('leaves rows blank when an offset points outside of the table', () => {
+    let table = createTable(calculated('Change', '#A# - #A[-1]#'), calculated('Next', '#A[+1]#'));
+    assert.deepEqual(readColumn(table, 'Change'), ['', '1', '1']);
+    assert.deepEqual(readColumn(table, 'Next'), ['2', '3', '']);
+  });
+
+  test('calculates cells only when they are read', () => {
+    let table = createTable(calculated('B', '#A# * 2'));
+    let column = table.columns[1];
+    assert.equal(column.isRowCalculated(1), false);
+    assert.equal(table.getValue(1, 1), '4');
+    assert.equal(column.isRowCalculated(1), true);
+    assert.equal(column.isRowCalculated(0), false);
+  });
+
+  test('calculates cells formatted before they are read', () => {
+    let table = createTable(calculated('B', '#A# * 2'));
+    assert.equal(table.columns[1].getFormattedValue(2), '6');
+  });
+
+  test('calculates pending rows in the background a few at a time', () => {
+    let table = createTable(calculated('B', '#A# * 2'));
+    assert.equal(table.isColumnCalculated(1), false);
+    assert.equal(table.calculatePendingRows(2), false);
+    assert.equal(table.getCalculationProgress(), 2 / 3);
+    assert.equal(table.calculatePendingRows(2), true);
+    assert.equal(table.isColumnCalculated(1), true);
+  });
+
+  test('reports circular references and recovers when they are broken', () => {
+    let table = createTable(calculated('B', '#C# + 1'), calculated('C', '#B# + 1'), calculated('D', '#B# * 2'));
+    assert.deepEqual(readColumn(table, 'B'), ['circular-reference', 'circular-reference', 'circular-reference']);
+    assert.deepEqual(readColumn(table, 'D'), ['circular-reference', 'circular-reference', 'circular-reference']);
+    table.replaceColumn(2, calculated('C', '#A#'));
+    assert.deepEqual(readColumn(table, 'B'), ['2', '3', '4']);
+    assert.deepEqual(readColumn(table, 'D'), ['4', '6', '8']);
+  });
+
+  test('reports references to the same row of the column itself as circular', () => {
+    let table = createTable(calculated('B', '#B# + 1'), calculated('C', '#C[+1]# + #C.Max#'));
+    assert.equal(table.getError(0, 1)?.kind, 'circular-reference');
+    assert.equal(table.getError(0, 2)?.kind, 'circular-reference');
+  });
+
+  test('calculates references to previous rows of the column itself in order', () => {
+    let table = createTable(calculated('Total', 'coalesce(#Total[-1]#, 0) + #A#'));
+    assert.deepEqual(readColumn(table, 'Total'), ['1', '3', '6']);
+    table.updateCell(0, 0, 10);
+    assert.deepEqual(readColumn(table, 'Total'), ['10', '12', '15']);
+  });
+
+  test('calculates long running totals without recursing through every row', () => {
+    let table = new DataTable({ a: Object.fromEntries(Array.from({ length: 100000 }, (_, r) => [r, 1])) });
+    table.addColumns([new ColumnData('A', 'data', 'a'), calculated('Total', 'coalesce(#Total[-1]#, 0) + #A#')]);
+    table.compile();
+    assert.equal(table.getValue(99999, 1), '100000');
+  });
+
+  test('passes errors on to the columns referencing them', () => {
+    let table = createTable(calculated('B', '#A# / 0'), calculated('C', '#B# + 1'));
+    assert.equal(table.getError(0, 2)?.kind, 'division-by-zero');
+    assert.match(table.getError(0, 2)?.message ?? '', /Column "B" has an error/);
+  });
+
+  test('recalculates the dependents of an edited cell', () => {
+    let table = createTable(calculated('B', '#A# * 2'), calculated('Previous', '#A[-1]#'), calculated('Total', '#A.Sum#'));
+    readColumn(table, 'B');
+    readColumn(table, 'Previous');
+    table.updateCell(1, 0, 10);
+    assert.equal(table.columns[1].isRowCalculated(0), true);
+    assert.equal(table.columns[1].isRowCalculated(1), false);
+    assert.equal(table.columns[2].isRowCalculated(2), false);
+    assert.deepEqual(readColumn(table, 'B'), ['2', '20', '6']);
+    assert.deepEqual(readColumn(table, 'Previous'), ['', '1', '10']);
+    assert.deepEqual(readColumn(table, 'Total'), ['14', '14', '14']);
+  });
+
+  test('calculates new rows added by an edit', () => {
+    let table = createTable(calculated('B', '#A# * 2'));
+    table.updateCell(3, 0, 5);
+    assert.deepEqual(readColumn(table, 'B'), ['2', '4', '6', '10']);
+  });
+
+  test('removes the rows added by an edit when it is undone', () => {
+    let table = createTable(calculated('B', '#A# * 2'));
+    let history = new TableHistory();
+    history.execute(table, updateCellMutation(table, 4, 0, 5));
+    assert.deepEqual(readColumn(table, 'B'), ['2', '4', '6', '', '10']);
+    history.undo(table);
+    assert.equal(table.data.a['4'], undefined);
+    assert.deepEqual(readColumn(table, 'B'), ['2', '4', '6']);
+  });
+
+  test('reports unknown columns after a referenced column is removed', () => {
+    let table = createTable(calculated('B', '#A# * 2'));
+    assert.deepEqual(table.getDependentColumns('A'), [1]);
+    table.removeColumn(0);
+    assert.equal(table.getError(0, 0)?.kind, 'unknown-column');
+  });
+
+  test('calculates columns added after compiling along with the columns already referencing them', () => {
+    let table = createTable(calculated('C', '#B# + 1'));
+    assert.equal(table.getError(0, 1)?.kind, 'unknown-column');
+    table.addColumn(calculated('B', '#A# * 2'));
+    assert.deepEqual(readColumn(table, 'C'), ['3', '5', '7']);
+  });
+
+  test('provides elapsed time and time steps from the time column', () => {
+    let table = new DataTable({ time: { 0: '2021-01-01T00:00:00Z', 1: '2021-01-01T02:00:00Z', 2: '2021-01-01T06:00:00Z' }, v: { 0: 0, 1: 4, 2: 12 } });
+    table.addColumns([
+      new ColumnData('Time', 'time', 'time'),
+      new ColumnData('Volume', 'data', 'v'),
+      calculated('Hours', 'elapsed_hours()'),
+      calculated('Rate', 'ddt(#Volume#)'),
+    ]);
+    table.compile();
+    assert.deepEqual(readColumn(table, 'Hours'), ['0', '2', '6']);
+    assert.deepEqual(readColumn(table, 'Rate'), ['', '2', '2']);
+  });
+});
+
+describe('Workbook', () => {
+  /**
+   * Creates a workbook with a Cells table referencing a Media table
+   */
+  function createWorkbook() {
+    let cells = new DataTable({ sample: { 0: 'A', 1: 'B', 2: 'C' }, count: { 0: 10, 1: 20, 2: 30 } });
+    cells.addColumns([new ColumnData('Sample', 'data', 'sample'), new ColumnData('Count', 'data', 'count'), calculated('Ratio', '#Count# / #Media!Glucose#')]);
+    cells.compile();
+    let media = new DataTable({ sample: { 0: 'C', 1: 'A' }, glucose: { 0: 5, 1: 2 } });
+    media.addColumns([new ColumnData('Sample', 'data', 'sample'), new ColumnData('Glucose', 'data', 'glucose')]);
+    media.compile();
+    let workbook = new Workbook();
+    workbook.addTable('Cells', cells);
+    workbook.addTable('Media', media);
+    return { workbook, cells, media };
+  }
+
+  test('joins rows by row index', () => {
+    let { cells } = createWorkbook();
+    assert.deepEqual(readColumn(cells, 'Ratio'), ['2', '10', '']);
+  });
+
+  test('joins rows by key column', () => {
+    let { workbook, cells } = createWorkbook();
+    workbook.setKeyColumn('Cells', 'sample');
+    workbook.setKeyColumn('Media', 'sample');
+    assert.deepEqual(readColumn(cells, 'Ratio'), ['5', '', '6']);
+  });
+
+  test('recalculates references after the referenced table changes', () => {
+    let { workbook, cells, media } = createWorkbook();
+    readColumn(cells, 'Ratio');
+    media.updateCell(0, 1, 10);
+    workbook.tableChanged('Media');
+    assert.deepEqual(readColumn(cells, 'Ratio'), ['1', '10', '']);
+  });
+
+  test('rewrites references when a table is renamed and reports removed tables', () => {
+    let { workbook, cells } = createWorkbook();
+    workbook.renameTable('Media', 'Feed');
+    assert.equal(cells.columns[2].calculation.expression, '#Count# / #Feed!Glucose#');
+    assert.deepEqual(readColumn(cells, 'Ratio'), ['2', '10', '']);
+    workbook.removeTable('Feed');
+    assert.equal(cells.getError(0, 2)?.kind, 'unknown-column');
+  });
+
+  test('rewrites the references of other tables when a column rename is applied and undone', () => {
+    let { workbook, cells, media } = createWorkbook();
+    let history = new TableHistory();
+    assert.deepEqual(workbook.getRenamedLinkedExpressions('Media', 'Glucose', 'Glc'), [
+      { tableName: 'Cells', columnName: 'Ratio', expression: '#Count# / #Media!Glucose#', renamedExpression: '#Count# / #Media!Glc#' },
+    ]);
+    history.execute(media, replaceColumnMutation(media, 1, new ColumnData('Glc', 'data', 'glucose'), workbook));
+    assert.equal(cells.columns[2].calculation.expression, '#Count# / #Media!Glc#');
+    assert.deepEqual(readColumn(cells, 'Ratio'), ['2', '10', '']);
+    history.undo(media);
+    assert.equal(media.columns[1].columnName, 'Glucose');
+    assert.equal(cells.columns[2].calculation.expression, '#Count# / #Media!Glucose#');
+    assert.deepEqual(readColumn(cells, 'Ratio'), ['2', '10', '']);
+    history.redo(media);
+    assert.equal(cells.columns[2].calculation.expression, '#Count# / #Media!Glc#');
+  });
+
+  test('keeps the history of a table working after a rename in another table rewrites its references', () => {
+    let { workbook, cells, media } = createWorkbook();
+    let history = new TableHistory();
+    history.execute(cells, addColumnMutation(calculated('Double', '#Media!Glucose# * 2')));
+    new TableHistory().execute(media, replaceColumnMutation(media, 1, new ColumnData('Glc', 'data', 'glucose'), workbook));
+    assert.equal(cells.columns[3].calculation.expression, '#Media!Glc# * 2');
+    history.undo(cells);
+    assert.deepEqual(cells.columns.map((column) => column.columnName), ['Sample', 'Count', 'Ratio']);
+    assert.equal(cells.removeColumn(-1), undefined);
+    assert.equal(cells.columns.length, 3);
+  });
+
+  test('saves the other tables of the workbook with a project and opens them again', () => {
+    let { workbook } = createWorkbook();
+    workbook.setKeyColumn('Media', 'sample');
+    let project = parseProject(JSON.stringify(workbook.saveProject('Cells', true)));
+    let opened = new Workbook();
+    let table = new DataTable({});
+    table.compile();
+    opened.addTable('Table 1', table);
+    assert.equal(opened.openProject('Table 1', project), 'Cells');
+    assert.deepEqual(opened.getTableNames(), ['Cells', 'Media']);
+    assert.equal(opened.tables[1].keyColumnId, 'sample');
+    assert.deepEqual(readColumn(opened.getTable('Cells') as DataTable, 'Ratio'), ['2', '10', '']);
+  });
+
+  test('reports circular references across tables', () => {
+    let { workbook, cells, media } = createWorkbook();
+    media.addColumn(calculated('Back', '#Cells!Ratio# * 2'));
+    media.replaceColumn(1, new ColumnData('Glucose', 'calculated', 'glucose').withCalculation(new ColumnCalculation('#Back# + 1')));
+    workbook.tableChanged('Media');
+    assert.equal(cells.getError(0, 2)?.kind, 'circular-reference');
+    assert.equal(media.getError(0, 2)?.kind, 'circular-reference');
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  ColumnAggregations,
+  ColumnCalculation,
+  ColumnData,
+  ProjectFileError,
+  createProject,
+  createTable,
+  defaultExportOptions,
+  exportTable,
+  getUnmatchedColumns,
+  importDelimitedText,
+  loadProject,
+  parseProject,
+  readColumn,
+  readRows,
+} from '../src/engine';
+
+describe('engine', () => {
+  test('creates tables from column definitions and reads their rows', () => {
+    let table = createTable([
+      { name: 'Volume', type: 'data', id: 'volume', unit: 'L', aggregations: [] },
+      { name: 'Mass', type: 'calculated', id: 'mass', expression: '#Volume# * 1.2 kg/L', aggregations: [] },
+    ], { volume: { 0: 2, 1: 5 } });
+    table.addColumn(new ColumnData('Doubled', 'calculated', 'doubled').withCalculation(new ColumnCalculation('#Mass# * 2')));
+    assert.deepEqual(readRows(table), [
+      { Volume: 2, Mass: 2.4, Doubled: 4.8 },
+      { Volume: 5, Mass: 6, Doubled: 12 },
+    ]);
+    assert.equal(table.columns[2].getUnit(), 'kg');
+  });
+
+  test('reads errors as calculation errors and blank cells as null', () => {
+    let table = createTable([
+      { name: 'A', type: 'data', id: 'a', aggregations: [] },
+      { name: 'B', type: 'calculated', id: 'b', expression: '#A# / 0', aggregations: [] },
+      { name: 'Previous', type: 'calculated', id: 'previous', expression: '#A[-1]#', aggregations: [] },
+    ], { a: { 0: 1 } });
+    assert.deepEqual(readColumn(table, 'B'), [{ ok: false, kind: 'division-by-zero', message: 'Division by zero' }]);
+    assert.deepEqual(readColumn(table, 'Previous'), [null]);
+    assert.throws(() => readColumn(table, 'C'), /There is no column named "C"/);
+  });
+
+  test('applies the calculated columns of a project to imported data', () => {
+    let template = createTable([
+      { name: 'Volume', type: 'data', id: 'volume', aggregations: [] },
+      { name: 'Half', type: 'calculated', id: 'half', expression: '#Volume# / 2', aggregations: [{ operation: ColumnAggregations.Sum }] },
+    ]);
+    let project = parseProject(JSON.stringify(createProject(template, false)));
+    let { data, columns } = importDelimitedText('Volume;Sample\n4;a\n10;b\n');
+    let table = loadProject(project, createTable(columns, data));
+    assert.deepEqual(readColumn(table, 'Half'), [2, 5]);
+    assert.equal(table.getAggregationResults(2)[0].value, '7');
+  });
+
+  test('applies the data column definitions of a project to matching columns of the current data', () => {
+    let template = createTable([
+      { name: 'Volume', type: 'data', id: 'volume', unit: 'mL', aggregations: [{ operation: ColumnAggregations.Max }] },
+      { name: 'Mass', type: 'data', id: 'mass', unit: 'g', aggregations: [] },
+    ]);
+    let project = parseProject(JSON.stringify(createProject(template, false)));
+    let { data, columns } = importDelimitedText('Volume;Sample\n4;a\n10;b\n');
+    let current = createTable(columns, data);
+    let table = loadProject(project, current);
+    assert.equal(table.columns[0].unit, 'mL');
+    assert.equal(table.getAggregationResults(0)[0].value, '10');
+    assert.notEqual(table.columns[0], current.columns[0]);
+    assert.equal(current.columns[0].unit, '');
+    assert.deepEqual(getUnmatchedColumns(project, current), ['Mass']);
+  });
+
+  test('numbers repeated column names when importing delimited text', () => {
+    let { data, columns, report } = importDelimitedText('a,a,b\n1,2,3\n');
+    let table = createTable(columns, data);
+    assert.deepEqual(columns.map((column) => column.columnName), ['a', 'a 2', 'b']);
+    assert.deepEqual(readColumn(table, 'a 2'), [2]);
+    assert.deepEqual(report.renamedColumns, [{ name: 'a', newName: 'a 2', reason: 'A column with this name already exists' }]);
+  });
+
+  test('renames imported headers that can\'t be referenced from expressions', () => {
+    let { columns, report } = importDelimitedText('Well #,Volume.Max,A!B,Volume[1],#\n1,2,3,4,5\n');
+    assert.deepEqual(columns.map((column) => column.columnName), ['Well', 'Volume Max', 'A B', 'Volume (1)', 'Column 5']);
+    assert.deepEqual(report.renamedColumns.map(({ name, newName }) => [name, newName]), [
+      ['Well #', 'Well'], ['Volume.Max', 'Volume Max'], ['A!B', 'A B'], ['Volume[1]', 'Volume (1)'], ['#', 'Column 5'],
+    ]);
+    assert.match(report.renamedColumns[1].reason, /can't end with an aggregation/);
+  });
+
+  test('exports tables to CSV that imports back', () => {
+    let table = createTable([
+      { name: 'Vol, mL', type: 'data', id: 'volume', aggregations: [] },
+      { name: 'Sample "A"', type: 'data', id: 'sample', aggregations: [] },
+    ], { volume: { 0: 2 }, sample: { 0: 'x, y' } });
+    let csv = exportTable(table, defaultExportOptions);
+    assert.equal(csv, '"Vol, mL","Sample ""A"""\n2,"x, y"\n');
+    assert.deepEqual(importDelimitedText(csv).columns.map((column) => column.columnName), ['Vol, mL', 'Sample "A"']);
+  });
+
+  test('migrates project files of older versions', () => {
+    let project = parseProject(JSON.stringify({ version: 1, columns: [{ name: 'A', type: 'data', id: 'a', aggregation: 'Sum' }], data: [{ 0: 1 }] }));
+    assert.deepEqual(project, {
+      version: 6,
+      columns: [{ name: 'A', type: 'data', id: 'a', aggregations: [{ operation: ColumnAggregations.Sum }] }],
+      data: { a: { 0: 1 } },
+      tables: [],
+    });
+  });
+
+  test('rejects invalid project files', () => {
+    assert.throws(() => parseProject('{ "columns": 3 }'), ProjectFileError);
+    assert.throws(() => parseProject('{ "version": 5, "columns": [1] }'), /Every column needs a name and an id/);
+    assert.throws(() => parseProject('{ "version": 5, "columns": [{ "name": "A", "id": "a", "type": "data", "aggregations": ["Sum"] }] }'), /unknown aggregation "Sum"/);
+    assert.throws(() => parseProject('{ "version": 6, "columns": [], "tables": [{ "name": "B", "keyColumnId": null }] }'), /Table "B" has no columns/);
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as mathjs from 'mathjs';
+
+import { ColumnAggregations, ColumnCalculation, ColumnData, parseColumnReference } from '../src/columnDataUtils';
+import { renameColumnReferences, renameTableReferences, validateColumnName, validateExpression } from '../src/expressionSyntax';
+
+/**
+ * Evaluates an expression with the provided variables, keyed by variable name
+ */
+function evaluate(expression: string, variables: { [key: string]: string | number | null } = {}, units: { [key: string]: string } = {}) {
+  return new ColumnCalculation(expression).withVariables(variables).withVariableUnits(units).calculate();
+}
+
+describe('parseColumnReference', () => {
+  test('reads column names without modifiers', () => {
+    assert.deepEqual(parseColumnReference('Cell Density'), { columnName: 'Cell Density', offset: 0 });
+  });
+
+  test('reads row offsets', () => {
+    assert.deepEqual(parseColumnReference('Volume[-1]'), { columnName: 'Volume', offset: -1 });
+    assert.deepEqual(parseColumnReference('Volume[ +2 ]'), { columnName: 'Volume', offset: 2 });
+  });
+
+  test('reads aggregations', () => {
+    assert.deepEqual(parseColumnReference('Volume.Max'), { columnName: 'Volume', offset: 0, aggregation: ColumnAggregations.Max });
+  });
+
+  test('keeps unknown aggregation names in the column name', () => {
+    assert.deepEqual(parseColumnReference('Volume.Total'), { columnName: 'Volume.Total', offset: 0 });
+  });
+
+  test('reads table names', () => {
+    assert.deepEqual(parseColumnReference('Media!Glucose[-1]'), { tableName: 'Media', columnName: 'Glucose', offset: -1 });
+    assert.deepEqual(parseColumnReference('Media!Glucose.Sum'), { tableName: 'Media', columnName: 'Glucose', offset: 0, aggregation: ColumnAggregations.Sum });
+  });
+});
+
+describe('ColumnCalculation', () => {
+  test('extracts the referenced variables', () => {
+    let calculation = new ColumnCalculation('#Cell Density# * #Volume# - #Cell Density[-1]#');
+    assert.deepEqual(Array.from(calculation.expectedVariables).sort(), ['Cell Density', 'Cell Density[-1]', 'Volume']);
+  });
+
+  test('expands time derivatives into the previous row and dt', () => {
+    let calculation = new ColumnCalculation('ddt(#Volume#)');
+    assert.deepEqual(Array.from(calculation.expectedVariables).sort(), ['Volume', 'Volume[-1]']);
+    assert.ok(calculation.usedTimeFunctions.has('dt'));
+  });
+
+  test('turns aggregating functions of a column into aggregation references', () => {
+    let calculation = new ColumnCalculation('#Volume# / max(#Volume#)');
+    assert.deepEqual(Array.from(calculation.expectedVariables).sort(), ['Volume', 'Volume.Max']);
+  });
+
+  test('evaluates arithmetic', () => {
+    assert.deepEqual(evaluate('#A# * (#B# + 10)', { A: 2, B: 5 }), { ok: true, value: 30 });
+  });
+
+  test('treats numeric text as numbers', () => {
+    assert.deepEqual(evaluate('#A# + 1', { A: '41' }), { ok: true, value: 42 });
+  });
+
+  test('leaves the result blank when a referenced value is blank', () => {
+    assert.deepEqual(evaluate('#A# + 1', { A: null }), { ok: true, value: '' });
+    assert.deepEqual(evaluate('#A# + 1', { A: '' }), { ok: true, value: '' });
+    assert.deepEqual(evaluate('1 / #A#', { A: '' }), { ok: true, value: '' });
+  });
+
+  test('reports references to unknown columns', () => {
+    let result = evaluate('#Missing# + 1');
+    assert.equal(result.ok, false);
+    assert.equal(!result.ok && result.kind, 'unknown-column');
+  });
+
+  test('refuses to compile the mathjs functions disabled in expressions', () => {
+    let result = evaluate('createUnit("foo") + #A#', { A: 1 });
+    assert.equal(!result.ok && result.kind, 'parse');
+    assert.equal(new ColumnCalculation('parse("1")').parseError, 'Function "parse" is not available');
+  });
+
+  test('reports syntax errors', () => {
+    let result = evaluate('#A# +* 2', { A: 1 });
+    assert.equal(!result.ok && result.kind, 'parse');
+  });
+
+  test('reports divisions by zero', () => {
+    let result = evaluate('#A# / 0', { A: 1 });
+    assert.equal(!result.ok && result.kind, 'division-by-zero');
+  });
+
+  test('only reports divisions by zero for expressions that divide', () => {
+    let result = evaluate('log(#Rate/h#)', { 'Rate/h': 0 });
+    assert.equal(!result.ok && result.kind, 'evaluation');
+    let remainder = evaluate('#A# mod 0 + log(0)', { A: 1 });
+    assert.equal(!remainder.ok && remainder.kind, 'division-by-zero');
+  });
+
+  test('reports text used in arithmetic', () => {
+    let result = evaluate('#A# * 2', { A: 'low' });
+    assert.equal(!result.ok && result.kind, 'non-numeric');
+  });
+
+  test('derives units from the referenced columns', () => {
+    let result = evaluate('#Density# * #Volume#', { Density: 2, Volume: 3 }, { Density: 'g/L', Volume: 'L' });
+    assert.deepEqual(result, { ok: true, value: 6, unit: 'g' });
+  });
+
+  test('defines unknown column units without changing the default mathjs instance', () => {
+    let column = new ColumnData('Density', 'data', 'density').withUnit('widgets/mL');
+    assert.equal(column.unit, 'widgets/mL');
+    assert.throws(() => mathjs.unit('widgets'), /not found/);
+    assert.throws(() => new ColumnData('Mass', 'data', 'mass').withUnit('kg +'), /not a valid unit/);
+  });
+
+  test('converts results to the display unit', () => {
+    let result = new ColumnCalculation('#Mass#').withVariables({ Mass: 1500 }).withVariableUnits({ Mass: 'g' }).calculate('kg');
+    assert.deepEqual(result, { ok: true, value: 1.5, unit: 'kg' });
+  });
+
+  test('reports adding incompatible units', () => {
+    let result = evaluate('#Mass# + #Volume#', { Mass: 1, Volume: 1 }, { Mass: 'g', Volume: 'L' });
+    assert.equal(!result.ok && result.kind, 'unit-mismatch');
+  });
+
+  test('evaluates conditions and comparisons', () => {
+    assert.deepEqual(evaluate('if(#A# > 10, "high", "low")', { A: 12 }), { ok: true, value: 'high' });
+    assert.deepEqual(evaluate('if(#A# > 10, "high", "low")', { A: 3 }), { ok: true, value: 'low' });
+    assert.deepEqual(evaluate('if(#A# == "x", 1, 0)', { A: 'x' }), { ok: true, value: 1 });
+  });
+
+  test('evaluates chained comparisons', () => {
+    assert.deepEqual(evaluate('if(1 < #A# < 5, "in", "out")', { A: 3 }), { ok: true, value: 'in' });
+    assert.deepEqual(evaluate('if(1 < #A# < 5, "in", "out")', { A: 7 }), { ok: true, value: 'out' });
+    assert.deepEqual(evaluate('if(0 < #V# <= 950, "ok", "full")', { V: 900 }, { V: 'mL' }), { ok: true, value: 'ok' });
+    assert.deepEqual(evaluate('if("a" < #S# < "c", 1, 0)', { S: 'b' }), { ok: true, value: 1 });
+  });
+
+  test('lets blank handling functions see blank values', () => {
+    assert.deepEqual(evaluate('coalesce(#A#, 0) + 1', { A: null }), { ok: true, value: 1 });
+    assert.deepEqual(evaluate('isblank(#A#)', { A: null }), { ok: true, value: 'true' });
+    assert.deepEqual(evaluate('coalesce(#A#, 0) + 1', { A: '' }), { ok: true, value: 1 });
+    assert.deepEqual(evaluate('isblank(#A#)', { A: '' }), { ok: true, value: 'true' });
+  });
+});
+
+describe('validateExpression', () => {
+  test('accepts valid expressions', () => {
+    assert.deepEqual(validateExpression('#A# * sqrt(#B#)', ['A', 'B']), []);
+  });
+
+  test('reports unknown columns with their position', () => {
+    assert.deepEqual(validateExpression('#A# + #C#', ['A']), [{ start: 6, end: 9, message: 'There is no column named "C"' }]);
+  });
+
+  test('accepts references to columns of other tables', () => {
+    assert.deepEqual(validateExpression('#A# / #Media!Glucose#', ['A', 'Media!Glucose']), []);
+  });
+
+  test('reports unclosed references', () => {
+    let diagnostics = validateExpression('#A# + #B', ['A', 'B']);
+    assert.equal(diagnostics.length, 1);
+    assert.match(diagnostics[0].message, /missing the closing/);
+  });
+
+  test('reports unknown functions', () => {
+    let diagnostics = validateExpression('foo(#A#)', ['A']);
+    assert.deepEqual(diagnostics.map((diagnostic) => diagnostic.message), ['Unknown function "foo"']);
+  });
+
+  test('reports the mathjs functions disabled in expressions', () => {
+    assert.deepEqual(validateExpression('evaluate("1 + 1") + #A#', ['A']), [{ start: 0, end: 8, message: 'Function "evaluate" is not available' }]);
+    assert.deepEqual(validateExpression('import(#A#)', ['A']).map((diagnostic) => diagnostic.message), ['Function "import" is not available']);
+    assert.deepEqual(validateExpression('sqrt(#A#) + coalesce(#A#, 0)', ['A']), []);
+  });
+});
+
+describe('validateColumnName', () => {
+  test('accepts names that can be referenced', () => {
+    assert.equal(validateColumnName('Cell Density (cells/mL)', ['Volume']), null);
+  });
+
+  test('rejects empty and taken names, except the current name of a renamed column', () => {
+    assert.equal(validateColumnName(' ', []), 'The column needs a name');
+    assert.equal(validateColumnName('Volume', ['Volume']), 'A column with this name already exists');
+    assert.equal(validateColumnName('Volume', ['Volume'], 'Volume'), null);
+  });
+
+  test('rejects names that read as something else in references', () => {
+    assert.equal(validateColumnName('Media!Glucose', []), 'Column names can\'t contain "#" or "!"');
+    assert.equal(validateColumnName('Volume[-1]', []), 'Column names can\'t end with a row offset like "[-1]"');
+    assert.equal(validateColumnName('Volume.Max', []), 'Column names can\'t end with an aggregation like ".Max"');
+  });
+});
+
+describe('renaming references', () => {
+  test('keeps row offsets and aggregations', () => {
+    assert.equal(renameColumnReferences('#Old[-1]# + #Old.Max# + #Other#', 'Old', 'New'), '#New[-1]# + #New.Max# + #Other#');
+  });
+
+  test('only renames references to the same table by default', () => {
+    assert.equal(renameColumnReferences('#Old# + #Media!Old#', 'Old', 'New'), '#New# + #Media!Old#');
+    assert.equal(renameColumnReferences('#Old# + #Media!Old#', 'Old', 'New', 'Media'), '#Old# + #Media!New#');
+  });
+
+  test('renames tables', () => {
+    assert.equal(renameTableReferences('#Media!Glucose[-1]# + #Glucose#', 'Media', 'Feed'), '#Feed!Glucose[-1]# + #Glucose#');
+  });
+});